@@ -11,6 +11,8 @@ const blog = defineCollection({
   loader: quartoLoader({
     quartoRoot: "./quarto",
     listings: "blog-posts",
+    // welcome.qmd and 2025-11-24-welcome.qmd both generate the ID "welcome"
+    idCollisions: "keep-date",
     // Optional: Filter out draft posts
     filter: (entry) => entry.draft !== true,
   }),
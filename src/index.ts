@@ -18,6 +18,9 @@
  */
 
 export { quartoLoader } from "./loader.js";
+export { createImageSchema } from "./schema/image.js";
+export { authorSchema, affiliationSchema } from "./schema/common-fields.js";
+export type { ImageFunction, ImageSchemaOptions } from "./schema/image.js";
 
 // Export types
 export type {
@@ -26,11 +29,24 @@ export type {
   QuartoListing,
   AssetStrategy,
   AssetConfig,
+  IdConfig,
+  IdCollisionStrategy,
+  ListingOptions,
+  StaleOutputMode,
+  CacheConfig,
+  GitDatesConfig,
+  ErrorPolicy,
+  DiagnosticsConfig,
   SchemaConfig,
   FieldMappings,
   QmdDocument,
   ParsedMetadata,
   NormalizedEntry,
+  QuartoAuthor,
+  QuartoAffiliation,
+  CreditRole,
+  LoadFailure,
+  LoadPhase,
 } from "./types/index.js";
 
 // Export default field mappings constant
@@ -44,4 +60,7 @@ export {
   FieldMappingConflictError,
   ValidationError,
   ListingNotFoundError,
+  EntryIdCollisionError,
+  StaleOutputError,
+  AggregatedLoadError,
 } from "./types/index.js";
@@ -3,36 +3,112 @@
  */
 
 import { resolve, join, relative } from "path";
-import type { Loader } from "astro/loaders";
-import type { QuartoLoaderConfig } from "./types/loader-config.js";
-import { mergeFieldMappings } from "./parsers/metadata-normalizer.js";
+import { readFileSync } from "fs";
+import { access } from "fs/promises";
+import type { Loader, LoaderContext } from "astro/loaders";
+import type { z } from "zod";
+import type {
+  NormalizationOptions,
+  QuartoLoaderConfig,
+} from "./types/loader-config.js";
+import { resolveIdCollisions } from "./parsers/metadata-normalizer.js";
 import {
-  parseQuartoYaml,
+  loadQuartoConfig,
   extractListings,
   getOutputDir,
-  findListing,
+  selectListings,
   validateQuartoFormat,
 } from "./parsers/quarto-yaml.js";
 import {
   resolveListing,
+  resolveListingOptions,
+  buildListingMembership,
+  mergeListingDefaults,
   applySortConfiguration,
 } from "./parsers/listing-config.js";
-import { parseQmdFile, extractMetadata } from "./parsers/qmd-frontmatter.js";
+import type { ResolvedListingOptions } from "./parsers/listing-config.js";
+import {
+  parseQmdFile,
+  parseQmdContent,
+  readQmdSource,
+  extractMetadata,
+} from "./parsers/qmd-frontmatter.js";
 import { normalizeMetadata } from "./parsers/metadata-normalizer.js";
+import { assertTimeZone, resolveDateFields } from "./parsers/dates.js";
+import { createMetadataChain } from "./parsers/project-metadata.js";
+import type { MetadataChain } from "./parsers/project-metadata.js";
 import {
   readRenderedMarkdown,
+  readRenderedSource,
+  extractMarkdownBody,
   matchQmdToMd,
 } from "./parsers/markdown-content.js";
-import { createListingSchema } from "./schema/generator.js";
+import {
+  createListingSchema,
+  mergeListingSchemas,
+} from "./schema/generator.js";
+import { baseSchema } from "./schema/common-fields.js";
 import { validateEntryOrThrow } from "./schema/validator.js";
-import { FileCache } from "./utils/cache.js";
+import {
+  FileCache,
+  formatCacheStats,
+  normalizeCacheConfig,
+} from "./utils/cache.js";
+import {
+  PersistentCache,
+  createConfigFingerprint,
+  hashContent,
+  serializeCacheValue,
+} from "./utils/persistent-cache.js";
+import {
+  AssetPublisher,
+  derivePublicUrl,
+  isLocalAssetPath,
+} from "./utils/assets.js";
+import {
+  createEntryDigest,
+  isEntryUnchanged,
+  pruneStaleEntries,
+} from "./utils/store-sync.js";
 import { createFileWatcher } from "./utils/file-watcher.js";
+import type { FileChangeEvent } from "./utils/file-watcher.js";
+import { ReloadQueue } from "./utils/reload-queue.js";
+import {
+  applyGitHistory,
+  isShallowRepository,
+  normalizeGitDatesConfig,
+  readGitHistory,
+} from "./utils/git-history.js";
+import type { GitFileHistory } from "./utils/git-history.js";
+import { ErrorCollector } from "./utils/error-policy.js";
+import {
+  createDiagnosticsReport,
+  createListingDiagnostics,
+  formatDiagnosticsTable,
+  normalizeDiagnosticsConfig,
+  writeDiagnosticsReport,
+} from "./utils/diagnostics.js";
+import type { ListingDiagnostics } from "./utils/diagnostics.js";
+import type { LoadPhase } from "./utils/error-policy.js";
+import { createLimiter, normalizeParallelConfig } from "./utils/concurrency.js";
 import { createLogger, Timer } from "./utils/logger.js";
 import {
   renderQuarto,
+  renderQuartoFile,
+  renderQuartoFiles,
   normalizeAutoRenderConfig,
 } from "./utils/quarto-renderer.js";
-import { ListingNotFoundError } from "./utils/errors.js";
+import {
+  detectStaleOutputs,
+  normalizeStaleOutputsConfig,
+} from "./utils/staleness.js";
+import type { StalenessReport } from "./utils/staleness.js";
+import { StaleOutputError } from "./utils/errors.js";
+
+/**
+ * Quiet period before re-rendering after a file change in development
+ */
+const RELOAD_DELAY = 200;
 
 /**
  * Create a Quarto content loader for Astro
@@ -40,350 +116,993 @@ import { ListingNotFoundError } from "./utils/errors.js";
 export function quartoLoader(config: QuartoLoaderConfig): Loader {
   // Normalize configuration
   const quartoRoot = resolve(config.quartoRoot);
-  const fieldMappings = mergeFieldMappings(config.fieldMappings);
-  const cacheEnabled = config.cache ?? true;
-  const parallelEnabled = config.parallel ?? true;
+  if (config.timezone) {
+    assertTimeZone(config.timezone);
+  }
+  const cacheOptions = normalizeCacheConfig(config.cache);
+  const cacheEnabled = cacheOptions.enabled;
+  const maxConcurrency = normalizeParallelConfig(config.parallel);
+  const idCollisions = config.idCollisions ?? "error";
+  const diagnosticsOptions = normalizeDiagnosticsConfig(config.diagnostics);
+  const gitDatesOptions = normalizeGitDatesConfig(config.gitDates);
 
   // Create cache instances
-  const qmdCache = new FileCache<ReturnType<typeof extractMetadata>>(
-    cacheEnabled ? 500 : 0,
+  const qmdCache = new FileCache<Record<string, unknown>>(
+    cacheEnabled ? cacheOptions.maxSize : 0,
   );
+  const bodyCache = new FileCache<string>(
+    cacheEnabled ? cacheOptions.maxSize : 0,
+  );
+  const cacheFingerprint = cacheOptions.persistent
+    ? createConfigFingerprint(config)
+    : "";
   const fileWatcher = createFileWatcher();
+  const profile = config.profile ?? process.env.QUARTO_PROFILE;
+  const renderOptions = {
+    ...normalizeAutoRenderConfig(config.autoRender),
+    profile,
+  };
+  const incrementalRender =
+    renderOptions.enabled && renderOptions.incremental === true;
 
-  return {
-    name: "quarto-loader",
+  // Context of the most recent load, used when reloading after a change
+  let latestContext: LoaderContext;
 
-    load: async ({ store, logger: astroLogger, meta }) => {
-      const logger = createLogger(astroLogger);
-      const timer = new Timer();
+  /**
+   * Options for normalizing a listing's documents
+   */
+  const createNormalizeOptions = (
+    listingOptions: ResolvedListingOptions,
+    outputPath: string,
+  ): NormalizationOptions => ({
+    basePath: quartoRoot,
+    outputDir: outputPath,
+    fieldMappings: listingOptions.fieldMappings,
+    id: listingOptions.id,
+    astroImage: config.assets?.astroImage,
+    imageResolver: config.assets?.imageResolver,
+    flattenAuthors: config.flattenAuthors,
+    timezone: config.timezone,
+  });
 
-      try {
-        logger.info("Loading Quarto content...");
+  /**
+   * Read the git history of the project's documents for the gitDates option
+   * Returns undefined if the option is off or git can't be read
+   */
+  const readGitDates = async (logger?: {
+    warn: (msg: string) => void;
+  }): Promise<Map<string, GitFileHistory> | undefined> => {
+    if (!gitDatesOptions.enabled) {
+      return undefined;
+    }
 
-        // 0. Optional: Auto-render Quarto content
-        const renderOptions = normalizeAutoRenderConfig(config.autoRender);
-        if (renderOptions.enabled) {
-          logger.info("Auto-rendering Quarto content...");
-          try {
-            await renderQuarto(quartoRoot, renderOptions);
-            logger.info("Quarto rendering complete");
-          } catch (error) {
-            logger.error(`Auto-render failed: ${(error as Error).message}`);
-            throw error;
-          }
-        }
+    try {
+      if (await isShallowRepository(quartoRoot)) {
+        logger?.warn(
+          "Git history is shallow, so git-derived dates may be wrong. Fetch the full history (e.g. 'fetch-depth: 0' on GitHub Actions).",
+        );
+      }
+      return await readGitHistory(quartoRoot);
+    } catch (error) {
+      logger?.warn(
+        `Could not read git history for gitDates: ${(error as Error).message}`,
+      );
+      return undefined;
+    }
+  };
+
+  /**
+   * Build a document's metadata from its frontmatter
+   * Inherited project and directory metadata is merged in first, then
+   * metadata that can change without the source changing is resolved:
+   * special date values and git-derived fields
+   */
+  const resolveMetadata = async (
+    frontmatter: Record<string, unknown>,
+    filePath: string,
+    metadataChain: MetadataChain,
+    gitHistory: Map<string, GitFileHistory> | undefined,
+  ) => {
+    // Dates are resolved before extractMetadata turns strings into Dates,
+    // so dates without a time are still recognizable
+    const resolved = extractMetadata(
+      await resolveDateFields(
+        await metadataChain.apply(filePath, frontmatter),
+        filePath,
+        { timezone: config.timezone },
+      ),
+    );
+    return gitHistory
+      ? applyGitHistory(
+          resolved,
+          gitHistory.get(resolve(filePath)),
+          gitDatesOptions,
+        )
+      : resolved;
+  };
+
+  /**
+   * Build the collection schema from the configured listings
+   * Documents go through the same normalize, filter and transform steps
+   * as in load(), so the generated types match what entries are
+   * validated against. Files that fail are left to load() to report.
+   */
+  const buildCollectionSchema = async (): Promise<
+    z.ZodObject<z.ZodRawShape>
+  > => {
+    const { config: quartoConfig } = await loadQuartoConfig(
+      quartoRoot,
+      profile,
+    );
+    const outputPath = resolve(
+      quartoRoot,
+      config.outputDir || getOutputDir(quartoConfig),
+    );
+    const resolvedListings = await Promise.all(
+      selectListings(quartoConfig, config.listings).map((listing) =>
+        resolveListing(listing, quartoRoot),
+      ),
+    );
+    const membership = buildListingMembership(resolvedListings);
+    const defaultsByListing = new Map(
+      resolvedListings.map((r) => [r.listing.id, r.defaults]),
+    );
+    const limit = createLimiter(maxConcurrency);
+    const metadataChain = await createMetadataChain(quartoRoot, quartoConfig);
+    const gitHistory = await readGitDates();
+
+    const schemas: Array<z.ZodObject<z.ZodRawShape>> = [];
+    for (const { listing, files } of resolvedListings) {
+      const listingOptions = resolveListingOptions(config, listing.id);
+      const { filter, transform } = listingOptions;
+
+      // Shared documents are validated against their first listing's schema
+      const ownFiles = files.filter(
+        (file) => membership.get(file)?.[0] === listing.id,
+      );
+      if (ownFiles.length === 0 && files.length > 0) {
+        continue;
+      }
+
+      const documents = await Promise.all(
+        ownFiles.map((filePath) =>
+          limit(async () => {
+            try {
+              let frontmatter = cacheEnabled
+                ? await qmdCache.get(filePath)
+                : undefined;
+              if (!frontmatter) {
+                frontmatter = (await parseQmdFile(filePath)).frontmatter;
+                if (cacheEnabled) {
+                  await qmdCache.set(filePath, frontmatter);
+                }
+              }
 
-        // 1. Parse _quarto.yml
-        const quartoYamlPath = join(quartoRoot, "_quarto.yml");
-        logger.debug(`Parsing Quarto config: ${quartoYamlPath}`);
-        const quartoConfig = await parseQuartoYaml(quartoYamlPath);
-
-        // Validate GFM format
-        validateQuartoFormat(quartoConfig, logger);
-
-        // 2. Get output directory
-        const outputDir = config.outputDir || getOutputDir(quartoConfig);
-        const outputPath = resolve(quartoRoot, outputDir);
-
-        // 3. Resolve which listings to load
-        const allListings = extractListings(quartoConfig);
-        logger.debug(`Found ${allListings.length} listing(s) in Quarto config`);
-
-        let listingsToLoad = allListings;
-
-        if (config.listings) {
-          if (config.listings === "all") {
-            // Load all listings
-            listingsToLoad = allListings;
-          } else if (typeof config.listings === "string") {
-            // Load single listing
-            const listing = findListing(quartoConfig, config.listings);
-            if (!listing) {
-              throw new ListingNotFoundError(
-                config.listings,
-                allListings.map((l) => l.id),
+              const listingIds = membership.get(filePath) ?? [listing.id];
+              const entry = normalizeMetadata(
+                await resolveMetadata(
+                  frontmatter,
+                  filePath,
+                  metadataChain,
+                  gitHistory,
+                ),
+                filePath,
+                createNormalizeOptions(listingOptions, outputPath),
+                mergeListingDefaults(
+                  listingIds.map((id) => defaultsByListing.get(id) ?? {}),
+                ),
               );
-            }
-            listingsToLoad = [listing];
-          } else {
-            // Load multiple specific listings
-            listingsToLoad = [];
-            for (const listingId of config.listings) {
-              const listing = findListing(quartoConfig, listingId);
-              if (!listing) {
-                throw new ListingNotFoundError(
-                  listingId,
-                  allListings.map((l) => l.id),
-                );
+              entry.data.listings = listingIds;
+
+              if (filter && !(await filter(entry.data))) {
+                return undefined;
               }
-              listingsToLoad.push(listing);
+              return transform ? await transform(entry.data) : entry.data;
+            } catch {
+              return undefined;
             }
-          }
+          }),
+        ),
+      );
+
+      schemas.push(
+        createListingSchema(
+          listing,
+          documents.filter((data) => data !== undefined),
+          {
+            schema: listingOptions.schema,
+            fieldMappings: listingOptions.fieldMappings,
+          },
+        ),
+      );
+    }
+
+    return schemas.length > 0 ? mergeListingSchemas(schemas) : baseSchema;
+  };
+
+  /**
+   * Render (optionally), parse and store all configured listings
+   * Returns the resolved output directory
+   */
+  const syncContent = async (
+    {
+      store,
+      logger: astroLogger,
+      meta,
+      parseData,
+      renderMarkdown,
+    }: LoaderContext,
+    options: { render: boolean },
+  ): Promise<string> => {
+    const logger = createLogger(astroLogger);
+    const timer = new Timer();
+    const persistentCache = cacheOptions.persistent
+      ? new PersistentCache(meta, cacheFingerprint)
+      : undefined;
+    qmdCache.resetStats();
+    bodyCache.resetStats();
+
+    // Shared by every phase so file handles and processes stay bounded
+    const limit = createLimiter(maxConcurrency);
+    const errors = new ErrorCollector(
+      config.onError ?? "skip",
+      logger,
+      quartoRoot,
+    );
+
+    /**
+     * Read the rendered markdown body for an entry
+     * Returns an empty body if the file hasn't been rendered, or undefined
+     * if it couldn't be read and the entry should be skipped
+     */
+    const readBody = async (
+      entryId: string,
+      filePath: string | undefined,
+      absoluteMdPath: string | undefined,
+    ): Promise<string | undefined> => {
+      if (!absoluteMdPath) {
+        return "";
+      }
+
+      try {
+        const cachedBody = cacheEnabled
+          ? await bodyCache.get(absoluteMdPath)
+          : undefined;
+        if (cachedBody !== undefined) {
+          return cachedBody;
         }
 
-        logger.info(
-          `Loading ${listingsToLoad.length} listing(s): ${listingsToLoad.map((l) => l.id).join(", ")}`,
+        let body: string;
+        if (persistentCache) {
+          const source = await readRenderedSource(absoluteMdPath);
+          body = persistentCache.getOrCompute(
+            "body",
+            relative(quartoRoot, absoluteMdPath),
+            hashContent(source),
+            () => extractMarkdownBody(source),
+          );
+        } else {
+          body = await readRenderedMarkdown(absoluteMdPath);
+        }
+
+        if (cacheEnabled) {
+          await bodyCache.set(absoluteMdPath, body);
+        }
+        return body;
+      } catch (error) {
+        const rendered = await access(absoluteMdPath).then(
+          () => true,
+          () => false,
         );
+        if (!rendered || !filePath) {
+          logger.warn(
+            `Could not read markdown content for ${entryId}: ${(error as Error).message}`,
+          );
+          // Continue with empty body
+          return "";
+        }
 
-        // 4. Process each listing
-        let totalEntries = 0;
+        errors.handle(filePath, "body", error);
+        return undefined;
+      }
+    };
 
-        for (const listing of listingsToLoad) {
-          const listingTimer = new Timer();
-          logger.debug(`Processing listing: ${listing.id}`);
+    try {
+      logger.info("Loading Quarto content...");
 
-          // 5. Resolve listing files
-          const resolved = await resolveListing(listing, quartoRoot);
-          logger.debug(
-            `Found ${resolved.files.length} file(s) for listing ${listing.id}`,
+      // 0. Optional: Auto-render Quarto content
+      // Incremental rendering happens per file once listings are resolved
+      if (options.render && renderOptions.enabled && !incrementalRender) {
+        logger.info("Auto-rendering Quarto content...");
+        try {
+          await renderQuarto(quartoRoot, renderOptions);
+          logger.info("Quarto rendering complete");
+        } catch (error) {
+          logger.error(`Auto-render failed: ${(error as Error).message}`);
+          throw error;
+        }
+      }
+
+      // 1. Parse _quarto.yml and the active profiles
+      const quartoYamlPath = join(quartoRoot, "_quarto.yml");
+      logger.debug(`Parsing Quarto config: ${quartoYamlPath}`);
+      const { config: quartoConfig, profiles } = await loadQuartoConfig(
+        quartoRoot,
+        profile,
+      );
+      if (profiles.length > 0) {
+        logger.debug(`Active Quarto profile(s): ${profiles.join(", ")}`);
+      }
+
+      // Validate GFM format
+      validateQuartoFormat(quartoConfig, logger);
+
+      // Project, metadata-files and directory metadata documents inherit
+      const metadataChain = await createMetadataChain(quartoRoot, quartoConfig);
+
+      // 2. Get output directory
+      const outputDir = config.outputDir || getOutputDir(quartoConfig);
+      const outputPath = resolve(quartoRoot, outputDir);
+
+      // Asset publishing for the 'copy' and 'symlink' strategies
+      const assetStrategy = config.assets?.strategy ?? "reference";
+      let assetPublisher: AssetPublisher | undefined;
+      if (assetStrategy !== "reference") {
+        const publicDir = resolve(config.assets?.publicDir ?? "public/quarto");
+        assetPublisher = new AssetPublisher({
+          strategy: assetStrategy,
+          publicDir,
+          publicUrl:
+            config.assets?.publicUrl ??
+            derivePublicUrl(publicDir, process.cwd()),
+          quartoRoot,
+          outputDir: outputPath,
+        });
+      }
+
+      // 3. Resolve which listings to load
+      const allListings = extractListings(quartoConfig);
+      logger.debug(`Found ${allListings.length} listing(s) in Quarto config`);
+      const listingsToLoad = selectListings(quartoConfig, config.listings);
+
+      logger.info(
+        `Loading ${listingsToLoad.length} listing(s): ${listingsToLoad.map((l) => l.id).join(", ")}`,
+      );
+
+      for (const listingId of Object.keys(config.perListing ?? {})) {
+        if (!listingsToLoad.some((l) => l.id === listingId)) {
+          logger.warn(
+            `perListing options for '${listingId}' do not match a loaded listing`,
           );
+        }
+      }
 
-          if (resolved.files.length === 0) {
-            logger.warn(`No files found for listing ${listing.id}`);
-            continue;
-          }
+      // 4. Resolve listing files and track which listings each document belongs to
+      const resolvedListings = await Promise.all(
+        listingsToLoad.map((listing) => resolveListing(listing, quartoRoot)),
+      );
+      const membership = buildListingMembership(resolvedListings);
+      const defaultsByListing = new Map(
+        resolvedListings.map((r) => [r.listing.id, r.defaults]),
+      );
+      const gitHistory = await readGitDates(logger);
 
-          // 6. Parse .qmd files (in parallel if enabled)
-          const parseFile = async (filePath: string) => {
-            // Check cache first
-            if (cacheEnabled) {
-              const cached = await qmdCache.get(filePath);
-              if (cached) {
-                return { filePath, metadata: cached };
-              }
-            }
+      // Check rendered outputs against their sources, re-rendering
+      // missing or stale files for incremental auto-render or 'render' mode
+      const staleOptions = normalizeStaleOutputsConfig(config.staleOutputs);
+      let staleness: StalenessReport = { stale: [], missing: [] };
+      let rerendered = 0;
+      if (staleOptions.mode !== "ignore" || incrementalRender) {
+        staleness = await detectStaleOutputs(
+          [...membership.keys()],
+          quartoRoot,
+          outputPath,
+          staleOptions.compareHashes ? meta : undefined,
+          limit,
+        );
 
-            const qmdDoc = await parseQmdFile(filePath);
-            const metadata = extractMetadata(qmdDoc.frontmatter);
+        const toRender =
+          incrementalRender || staleOptions.mode === "render"
+            ? [...staleness.stale, ...staleness.missing]
+            : [];
 
-            // Cache result
-            if (cacheEnabled) {
-              await qmdCache.set(filePath, metadata);
+        if (toRender.length > 0) {
+          const fileRenderOptions = renderOptions.enabled
+            ? renderOptions
+            : { ...normalizeAutoRenderConfig(true), profile };
+          logger.info(`Rendering ${toRender.length} file(s)...`);
+
+          const results = await renderQuartoFiles(
+            quartoRoot,
+            toRender,
+            fileRenderOptions,
+            limit,
+          );
+
+          const failed = new Set<string>();
+          for (const result of results) {
+            const name = relative(quartoRoot, result.filePath);
+            if (result.success) {
+              rerendered++;
+              logger.debug(`Rendered ${name} (${result.duration}ms)`);
+            } else {
+              failed.add(result.filePath);
+              logger.error(
+                `Failed to render ${name}: ${result.error?.message}`,
+              );
             }
+          }
 
-            return { filePath, metadata };
+          staleness = {
+            stale: staleness.stale.filter((file) => failed.has(file)),
+            missing: staleness.missing.filter((file) => failed.has(file)),
           };
+        }
 
-          const parsedFiles = parallelEnabled
-            ? await Promise.all(resolved.files.map(parseFile))
-            : await resolved.files.reduce(
-                async (acc, file) => {
-                  const results = await acc;
-                  results.push(await parseFile(file));
-                  return results;
-                },
-                Promise.resolve(
-                  [] as Array<{
-                    filePath: string;
-                    metadata: ReturnType<typeof extractMetadata>;
-                  }>,
-                ),
-              );
+        if (staleOptions.mode === "error" && staleness.stale.length > 0) {
+          throw new StaleOutputError(
+            staleness.stale.map((file) => relative(quartoRoot, file)),
+          );
+        }
+      } else {
+        // Still count missing outputs for the diagnostics report
+        const { missing } = await detectStaleOutputs(
+          [...membership.keys()],
+          quartoRoot,
+          outputPath,
+          undefined,
+          limit,
+        );
+        staleness = { stale: [], missing };
+      }
+
+      // 5. Process each listing
+      let totalEntries = 0;
+      let unchangedEntries = 0;
+      // IDs produced by this load, used to prune stale store entries
+      const seenIds = new Set<string>();
+      // IDs claimed by each source file across all listings
+      const claimedIds = new Map<string, string>();
+      const listingDiagnostics: ListingDiagnostics[] = [];
+      const staleFiles = new Set(staleness.stale);
+      const missingFiles = new Set(staleness.missing);
+
+      for (const resolved of resolvedListings) {
+        const { listing } = resolved;
+        const listingTimer = new Timer();
+        logger.debug(`Processing listing: ${listing.id}`);
+
+        const diagnostics = createListingDiagnostics(listing.id);
+        listingDiagnostics.push(diagnostics);
+        diagnostics.matched = resolved.files.length;
+        diagnostics.staleRenders = resolved.files.filter((file) =>
+          staleFiles.has(file),
+        ).length;
+        diagnostics.missingRenders = resolved.files.filter((file) =>
+          missingFiles.has(file),
+        ).length;
+
+        // Apply per-listing overrides over the top-level options
+        const listingOptions = resolveListingOptions(config, listing.id);
+
+        logger.debug(
+          `Found ${resolved.files.length} file(s) for listing ${listing.id}`,
+        );
+
+        if (resolved.files.length === 0) {
+          logger.warn(`No files found for listing ${listing.id}`);
+          continue;
+        }
 
+        // Documents shared with an earlier listing were already processed there
+        const files = resolved.files.filter(
+          (file) => membership.get(file)?.[0] === listing.id,
+        );
+        if (files.length < resolved.files.length) {
           logger.debug(
-            `Parsed ${parsedFiles.length} file(s) for listing ${listing.id}`,
+            `${resolved.files.length - files.length} file(s) of listing ${listing.id} already processed by an earlier listing`,
           );
+        }
+
+        // 6. Parse .qmd files (in parallel if enabled)
+        const parseFile = async (filePath: string) => {
+          try {
+            const frontmatter = await parseSourceFile(filePath);
+            // Resolved after caching, as these change without the source changing
+            return {
+              filePath,
+              metadata: await resolveMetadata(
+                frontmatter,
+                filePath,
+                metadataChain,
+                gitHistory,
+              ),
+            };
+          } catch (error) {
+            errors.handle(filePath, "parse", error);
+            return undefined;
+          }
+        };
+
+        const parseSourceFile = async (filePath: string) => {
+          // Check cache first
+          if (cacheEnabled) {
+            const cached = await qmdCache.get(filePath);
+            if (cached) {
+              return cached;
+            }
+          }
+
+          let frontmatter: Record<string, unknown>;
+          if (persistentCache) {
+            const source = await readQmdSource(filePath);
+            frontmatter = persistentCache.getOrCompute(
+              "frontmatter",
+              relative(quartoRoot, filePath),
+              hashContent(source),
+              () => parseQmdContent(source, filePath).frontmatter,
+            );
+          } else {
+            frontmatter = (await parseQmdFile(filePath)).frontmatter;
+          }
+
+          // Cache result
+          if (cacheEnabled) {
+            await qmdCache.set(filePath, frontmatter);
+          }
+
+          return frontmatter;
+        };
 
-          // 7. Normalize metadata and apply field mappings
-          // Track file paths for later markdown content reading
-          const filePathMap = new Map<string, string>();
+        const parsedFiles = (
+          await Promise.all(files.map((file) => limit(() => parseFile(file))))
+        ).filter((parsed) => parsed !== undefined);
 
-          const normalizedEntries = parsedFiles.map(
-            ({ filePath, metadata }) => {
+        diagnostics.parsed = parsedFiles.length;
+        logger.debug(
+          `Parsed ${parsedFiles.length} file(s) for listing ${listing.id}`,
+        );
+
+        // 7. Normalize metadata and apply field mappings
+        // Defaults of every listing the document belongs to are merged in
+        // listing order, so earlier listings take precedence
+        const candidateEntries = parsedFiles.flatMap(
+          ({ filePath, metadata }) => {
+            const listingIds = membership.get(filePath) ?? [listing.id];
+            const listingDefaults = mergeListingDefaults(
+              listingIds.map((id) => defaultsByListing.get(id) ?? {}),
+            );
+            const normalize = () => {
               const entry = normalizeMetadata(
                 metadata,
                 filePath,
-                {
-                  basePath: quartoRoot,
-                  outputDir: outputPath,
-                  fieldMappings,
-                  slugify: undefined, // Could be configurable
-                  imageResolver: config.assets?.imageResolver,
-                },
-                resolved.defaults,
+                createNormalizeOptions(listingOptions, outputPath),
+                listingDefaults,
               );
-              // Store file path mapping for this entry
-              filePathMap.set(entry.id, filePath);
+              entry.data.listings = listingIds;
               return entry;
-            },
+            };
+
+            try {
+              const entry = persistentCache
+                ? persistentCache.getOrCompute(
+                    "entry",
+                    relative(quartoRoot, filePath),
+                    // The output path and profiles can change through
+                    // _quarto.yml or QUARTO_PROFILE, outside the loader config
+                    hashContent(
+                      serializeCacheValue([
+                        metadata,
+                        listingDefaults,
+                        listingIds,
+                        outputPath,
+                        profiles,
+                      ]),
+                    ),
+                    normalize,
+                  )
+                : normalize();
+              return [{ ...entry, filePath }];
+            } catch (error) {
+              errors.handle(filePath, "normalize", error);
+              return [];
+            }
+          },
+        );
+
+        // 8. Apply filter function if provided
+        let filteredEntries = candidateEntries;
+        const { filter, transform } = listingOptions;
+        if (filter) {
+          const filterResults = await Promise.all(
+            candidateEntries.map((entry) =>
+              limit(async () => ({
+                entry,
+                keep: await filter(entry.data),
+              })),
+            ),
           );
+          filteredEntries = filterResults
+            .filter((r) => r.keep)
+            .map((r) => r.entry);
 
+          diagnostics.filteredOut =
+            candidateEntries.length - filteredEntries.length;
           logger.debug(
-            `Normalized ${normalizedEntries.length} entry(s) for listing ${listing.id}`,
+            `Filtered to ${filteredEntries.length} entry(s) for listing ${listing.id}`,
           );
+        }
 
-          // 8. Apply filter function if provided
-          let filteredEntries = normalizedEntries;
-          if (config.filter) {
-            if (parallelEnabled) {
-              const filterResults = await Promise.all(
-                normalizedEntries.map(async (entry) => ({
-                  entry,
-                  keep: await config.filter!(entry.data),
-                })),
-              );
-              filteredEntries = filterResults
-                .filter((r) => r.keep)
-                .map((r) => r.entry);
-            } else {
-              const kept = [];
-              for (const entry of normalizedEntries) {
-                if (await config.filter(entry.data)) {
-                  kept.push(entry);
-                }
-              }
-              filteredEntries = kept;
-            }
+        // Resolve duplicate IDs within this listing and against earlier ones
+        // Only entries that will be stored can collide, so filtered-out
+        // entries such as drafts never claim an ID
+        const normalizedEntries = resolveIdCollisions(
+          filteredEntries,
+          idCollisions,
+          quartoRoot,
+          claimedIds,
+          logger,
+        );
 
+        // Track file paths for later markdown content reading
+        const filePathMap = new Map<string, string>();
+        normalizedEntries.forEach((entry, index) => {
+          const originalId = filteredEntries[index]!.id;
+          if (entry.id !== originalId) {
+            diagnostics.idCollisions++;
             logger.debug(
-              `Filtered to ${filteredEntries.length} entry(s) for listing ${listing.id}`,
+              `Resolved ID collision: ${relative(quartoRoot, entry.filePath)} uses '${entry.id}' instead of '${originalId}'`,
             );
           }
+          filePathMap.set(entry.id, entry.filePath);
+        });
+
+        logger.debug(
+          `Normalized ${normalizedEntries.length} entry(s) for listing ${listing.id}`,
+        );
+
+        // 9. Apply transform function if provided
+        let transformedEntries = normalizedEntries;
+        if (transform) {
+          transformedEntries = await Promise.all(
+            normalizedEntries.map((entry) =>
+              limit(async () => ({
+                ...entry,
+                data: await transform(entry.data),
+              })),
+            ),
+          );
+
+          logger.debug(
+            `Transformed ${transformedEntries.length} entry(s) for listing ${listing.id}`,
+          );
+        }
+
+        // 10. Apply sort configuration
+        const sortedEntries = applySortConfiguration(
+          transformedEntries,
+          listing.sort,
+        );
+
+        // 11. Generate schema
+        const entryDataList = sortedEntries.map(
+          (e) => e.data as Record<string, unknown>,
+        );
+        const schema = createListingSchema(
+          listing,
+          entryDataList,
+          {
+            schema: listingOptions.schema,
+            fieldMappings: listingOptions.fieldMappings,
+          },
+          logger,
+        );
 
-          // 9. Apply transform function if provided
-          let transformedEntries = filteredEntries;
-          if (config.transform) {
-            if (parallelEnabled) {
-              transformedEntries = await Promise.all(
-                filteredEntries.map(async (entry) => ({
-                  ...entry,
-                  data: await config.transform!(entry.data),
-                })),
+        // 12. Read markdown content and validate entries
+        // Bodies are read up front through the shared limiter
+        const mdPaths = sortedEntries.map((entry) => {
+          // For deferred rendering, we need a filePath that Astro can import
+          // Since we have markdown in the outputPath already, use that
+          const filePath = filePathMap.get(entry.id);
+          return filePath
+            ? matchQmdToMd(filePath, quartoRoot, outputPath)
+            : undefined;
+        });
+        const bodies = await Promise.all(
+          sortedEntries.map((entry, index) =>
+            limit(() =>
+              readBody(entry.id, filePathMap.get(entry.id), mdPaths[index]),
+            ),
+          ),
+        );
+
+        for (const [index, entry] of sortedEntries.entries()) {
+          let phase: LoadPhase = "body";
+          try {
+            const absoluteMdPath = mdPaths[index];
+            let body = bodies[index];
+            if (body === undefined) {
+              continue;
+            }
+
+            // Copy or symlink assets and point references at public URLs
+            let entryData = entry.data as Record<string, unknown>;
+            if (assetPublisher && absoluteMdPath) {
+              await assetPublisher.publishSupportingFiles(absoluteMdPath);
+              body = await assetPublisher.rewriteMarkdownImages(
+                body,
+                absoluteMdPath,
               );
-            } else {
-              const transformed = [];
-              for (const entry of filteredEntries) {
-                transformed.push({
-                  ...entry,
-                  data: await config.transform(entry.data),
-                });
+
+              const imageField =
+                listingOptions.fieldMappings["image"] || "image";
+              const image = entryData[imageField];
+              // With astroImage, the image field is left to Astro's image()
+              if (
+                !config.assets?.astroImage &&
+                typeof image === "string" &&
+                isLocalAssetPath(image)
+              ) {
+                const imageUrl = await assetPublisher.publish(image);
+                if (imageUrl) {
+                  entryData = { ...entryData, [imageField]: imageUrl };
+                }
               }
-              transformedEntries = transformed;
             }
 
-            logger.debug(
-              `Transformed ${transformedEntries.length} entry(s) for listing ${listing.id}`,
+            // Validate metadata
+            phase = "validate";
+            const sourcePath = filePathMap.get(entry.id);
+            let validatedData = validateEntryOrThrow(
+              entryData,
+              schema,
+              sourcePath && relative(process.cwd(), sourcePath),
+              {
+                fieldMappings: listingOptions.fieldMappings,
+                readSource: () =>
+                  sourcePath ? readFileSync(sourcePath, "utf-8") : undefined,
+              },
             );
-          }
 
-          // 10. Apply sort configuration
-          const sortedEntries = applySortConfiguration(
-            transformedEntries,
-            listing.sort,
-          );
+            // Store entry with body field
 
-          // 11. Generate schema
-          const entryDataList = sortedEntries.map(
-            (e) => e.data as Record<string, unknown>,
-          );
-          const schema = createListingSchema(
-            listing,
-            entryDataList,
-            config.schema,
-            logger,
-          );
+            // Convert to relative path from project root (Astro requires relative paths)
+            const mdPath = absoluteMdPath
+              ? relative(process.cwd(), absoluteMdPath)
+              : undefined;
 
-          // 12. Read markdown content and validate entries
-          for (const entry of sortedEntries) {
-            try {
-              // Get the original file path from our tracking map
-              const filePath = filePathMap.get(entry.id);
-
-              // Read rendered markdown content
-              let body = "";
-              if (filePath) {
-                const mdPath = matchQmdToMd(filePath, quartoRoot, outputPath);
-                try {
-                  body = await readRenderedMarkdown(mdPath);
-                } catch (error) {
-                  logger.warn(
-                    `Could not read markdown content for ${entry.id}: ${(error as Error).message}`,
-                  );
-                  // Continue with empty body
-                }
-              }
+            // Let the collection schema (e.g. Astro's image()) transform the data
+            if (config.assets?.astroImage) {
+              validatedData = await parseData({
+                id: entry.id,
+                data: validatedData,
+                filePath: mdPath,
+              });
+            }
 
-              // Validate metadata
-              const validatedData = validateEntryOrThrow(
-                entry.data as Record<string, unknown>,
-                schema,
-              );
+            // Log the paths for debugging
+            logger.debug(
+              `Entry ${entry.id}: mdPath=${mdPath}, hasBody=${!!body}`,
+            );
 
-              // Store entry with body field
-              // For deferred rendering, we need a filePath that Astro can import
-              // Since we have markdown in the outputPath already, use that
-              const absoluteMdPath = filePath
-                ? matchQmdToMd(filePath, quartoRoot, outputPath)
-                : undefined;
+            // Published assets are only referenced from the rewritten body,
+            // so it is rendered here instead of deferring to the .md file
+            const renderBody = assetPublisher !== undefined;
 
-              // Convert to relative path from project root (Astro requires relative paths)
-              const mdPath = absoluteMdPath
-                ? relative(process.cwd(), absoluteMdPath)
-                : undefined;
+            // Register the markdown file as a module import for Vite
+            if (mdPath && !renderBody) {
+              store.addModuleImport(mdPath);
+            }
 
-              // Log the paths for debugging
-              logger.debug(
-                `Entry ${entry.id}: mdPath=${mdPath}, hasBody=${!!body}`,
-              );
+            seenIds.add(entry.id);
+            totalEntries++;
+            diagnostics.entries++;
 
-              // Register the markdown file as a module import for Vite
-              if (mdPath) {
-                store.addModuleImport(mdPath);
-              }
+            // Skip the write if the stored entry has the same digest
+            const digest = createEntryDigest({
+              data: validatedData,
+              body,
+              filePath: mdPath,
+            });
+            if (isEntryUnchanged(store, entry.id, digest)) {
+              unchangedEntries++;
+              continue;
+            }
 
+            if (renderBody) {
+              phase = "body";
               store.set({
                 id: entry.id,
                 data: validatedData as Record<string, unknown>,
-                body, // Markdown content
-                filePath: mdPath, // Relative path to the .md file for deferred rendering
-                deferredRender: true, // Enable markdown rendering via render()
+                body,
+                filePath: mdPath,
+                digest,
+                rendered: await renderMarkdown(body),
               });
+              continue;
+            }
 
-              totalEntries++;
-            } catch (error) {
-              logger.error(
-                `Failed to process ${entry.id}: ${(error as Error).message}`,
-              );
-              // Continue processing other entries
+            store.set({
+              id: entry.id,
+              data: validatedData as Record<string, unknown>,
+              body, // Markdown content
+              filePath: mdPath, // Relative path to the .md file for deferred rendering
+              digest, // Content digest for incremental sync
+              deferredRender: true, // Enable markdown rendering via render()
+            });
+          } catch (error) {
+            if (phase === "validate") {
+              diagnostics.failedValidation++;
             }
+            errors.handle(filePathMap.get(entry.id) ?? entry.id, phase, error);
           }
-
-          listingTimer.log(logger, `Processed listing ${listing.id}`);
         }
 
-        // 13. Set up file watching in development
-        if ((meta as { mode?: string }).mode === "dev") {
-          if (!fileWatcher.isWatching()) {
-            fileWatcher.watch([quartoRoot]);
+        diagnostics.durationMs = listingTimer.elapsed();
+        listingTimer.log(logger, `Processed listing ${listing.id}`);
+      }
 
-            fileWatcher.on("change", (event) => {
-              if (
-                event.path.endsWith(".qmd") ||
-                event.path.endsWith("_quarto.yml")
-              ) {
-                logger.debug(`File changed: ${event.path}`);
-                qmdCache.invalidate(event.path);
-              }
-            });
+      // 13. Remove entries whose source vanished or was filtered out
+      const removedIds = pruneStaleEntries(store, seenIds);
+      if (removedIds.length > 0) {
+        logger.debug(
+          `Removed ${removedIds.length} stale entry(s): ${removedIds.join(", ")}`,
+        );
+      }
+      logger.debug(`${unchangedEntries} entry(s) unchanged since last load`);
 
-            logger.debug("File watching enabled for hot reload");
-          }
+      // Drop cached results of documents that were removed or renamed
+      if (persistentCache) {
+        const removedFiles = persistentCache.prune(
+          [...membership.keys()].flatMap((file) => [
+            relative(quartoRoot, file),
+            relative(quartoRoot, matchQmdToMd(file, quartoRoot, outputPath)),
+          ]),
+        );
+        if (removedFiles.length > 0) {
+          logger.debug(
+            `Removed cached results of ${removedFiles.length} file(s)`,
+          );
         }
+      }
 
-        timer.log(logger, `Loaded ${totalEntries} total entry(s) from Quarto`);
-      } catch (error) {
-        logger.error(
-          `Failed to load Quarto content: ${(error as Error).message}`,
+      // Remove assets of documents that were removed or renamed
+      if (assetPublisher) {
+        const removedAssets = await assetPublisher.prune(meta);
+        if (removedAssets.length > 0) {
+          logger.debug(`Removed ${removedAssets.length} unused asset(s)`);
+        }
+      }
+
+      // Summarize stale rendered outputs
+      if (rerendered > 0) {
+        logger.info(`Rendered ${rerendered} stale or missing file(s)`);
+      }
+      if (staleOptions.mode !== "ignore" && staleness.stale.length > 0) {
+        logger.warn(
+          `Rendered output is older than its source for ${staleness.stale.length} file(s):\n` +
+            staleness.stale
+              .map((file) => `  - ${relative(quartoRoot, file)}`)
+              .join("\n") +
+            `\nRun 'quarto render' to update them.`,
+        );
+      }
+
+      timer.log(logger, `Loaded ${totalEntries} total entry(s) from Quarto`);
+      if (cacheEnabled) {
+        timer.log(
+          logger,
+          `Cache usage - ${formatCacheStats("frontmatter", qmdCache.getStats())}; ` +
+            formatCacheStats("body", bodyCache.getStats()),
+        );
+      }
+
+      // Report per-listing counts before any collected errors are thrown
+      const report = createDiagnosticsReport(
+        listingDiagnostics,
+        errors.getFailures(),
+        timer.elapsed(),
+      );
+      if (diagnosticsOptions.print) {
+        logger.info(
+          `Quarto loader summary:\n${formatDiagnosticsTable(report)}`,
+        );
+      }
+      if (diagnosticsOptions.file) {
+        await writeDiagnosticsReport(report, diagnosticsOptions.file);
+        logger.debug(`Wrote diagnostics report to ${diagnosticsOptions.file}`);
+      }
+
+      // With onError: 'collect', fail once every file has been processed
+      errors.throwIfFailed();
+      return outputPath;
+    } catch (error) {
+      logger.error(
+        `Failed to load Quarto content: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  };
+
+  // Re-render changed documents and reload content in development
+  const reloadQueue = new ReloadQueue({
+    delay: RELOAD_DELAY,
+    render: async (filePath) => {
+      const logger = createLogger(latestContext.logger);
+      try {
+        await access(filePath);
+      } catch {
+        // The file was removed; the reload prunes its entry
+        return;
+      }
+      logger.info(`Re-rendering ${relative(quartoRoot, filePath)}...`);
+      await renderQuartoFile(quartoRoot, filePath, renderOptions);
+    },
+    reload: async (filePaths) => {
+      for (const filePath of filePaths) {
+        qmdCache.invalidate(filePath);
+      }
+      await syncContent(latestContext, { render: false });
+    },
+    onError: (error, filePath) => {
+      const logger = createLogger(latestContext.logger);
+      logger.error(
+        filePath
+          ? `Failed to re-render ${relative(quartoRoot, filePath)}: ${error.message}`
+          : `Failed to reload Quarto content: ${error.message}`,
+      );
+    },
+  });
+
+  fileWatcher.on("change", (event: FileChangeEvent) => {
+    if (event.path.endsWith(".qmd")) {
+      // Removed documents only need a reload to prune their entry
+      reloadQueue.schedule(
+        event.path,
+        renderOptions.enabled && event.type !== "unlink",
+      );
+    } else if (
+      /_quarto(-[^/\\]+)?\.yml$/.test(event.path) ||
+      event.path.endsWith("_metadata.yml")
+    ) {
+      reloadQueue.schedule(event.path, false);
+    } else {
+      return;
+    }
+    createLogger(latestContext.logger).debug(
+      `File ${event.type}: ${relative(quartoRoot, event.path)}`,
+    );
+  });
+
+  return {
+    name: "quarto-loader",
+
+    load: async (context) => {
+      latestContext = context;
+      // A full load supersedes any queued changes
+      reloadQueue.clear();
+      const outputPath = await syncContent(context, { render: true });
+
+      // 14. Watch for changes in development (Astro only provides a watcher in dev)
+      if (context.watcher) {
+        fileWatcher.watch(context.watcher, {
+          root: quartoRoot,
+          ignore: [outputPath],
+        });
+        createLogger(context.logger).debug(
+          "File watching enabled for hot reload",
         );
-        throw error;
       }
     },
 
     schema: async () => {
-      // Return a basic schema - actual schema is generated per listing in load()
-      // This is used by Astro for type generation
-      const { baseSchema } = await import("./schema/common-fields.js");
-      return baseSchema;
+      // Used by Astro to generate the collection's types
+      try {
+        return await buildCollectionSchema();
+      } catch {
+        // Configuration errors are reported by load()
+        return baseSchema;
+      }
     },
   };
 }
@@ -0,0 +1,263 @@
+/**
+ * Normalization of Quarto's author and affiliation metadata
+ */
+
+import type {
+  CreditRole,
+  QuartoAffiliation,
+  QuartoAuthor,
+} from "../types/quarto.js";
+
+/**
+ * Contributor roles of the CRediT taxonomy
+ */
+export const CREDIT_ROLES = [
+  "Conceptualization",
+  "Data curation",
+  "Formal analysis",
+  "Funding acquisition",
+  "Investigation",
+  "Methodology",
+  "Project administration",
+  "Resources",
+  "Software",
+  "Supervision",
+  "Validation",
+  "Visualization",
+  "Writing – original draft",
+  "Writing – review & editing",
+] as const;
+
+const DEGREES = ["lead", "supporting", "equal"] as const;
+
+/**
+ * Reduce a role name to letters so spelling variants match
+ * e.g. "writing-review-editing" and "Writing – review & editing"
+ */
+function roleKey(role: string): string {
+  return role
+    .toLowerCase()
+    .replace(/&|\band\b/g, "")
+    .replace(/[^a-z]/g, "");
+}
+
+const CREDIT_ROLES_BY_KEY = new Map<string, string>(
+  CREDIT_ROLES.map((role) => [roleKey(role), role]),
+);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value.trim() || undefined;
+  }
+  return typeof value === "number" ? String(value) : undefined;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Drop undefined properties so entries only carry fields that are set
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, item]) => item !== undefined),
+  ) as T;
+}
+
+/**
+ * Normalize an affiliation given as a name or an object
+ */
+function normalizeAffiliation(value: unknown): QuartoAffiliation | undefined {
+  if (!isRecord(value)) {
+    const name = optionalString(value);
+    return name ? { name } : undefined;
+  }
+
+  const id = optionalString(value.id);
+  const name = optionalString(value.name) ?? id;
+  if (!name) {
+    return undefined;
+  }
+
+  return compact({
+    id,
+    name,
+    department: optionalString(value.department),
+    address: optionalString(value.address),
+    city: optionalString(value.city),
+    region: optionalString(value.region) ?? optionalString(value.state),
+    country: optionalString(value.country),
+    postalCode: optionalString(value["postal-code"]),
+    url: optionalString(value.url),
+    ror: optionalString(value.ror),
+  });
+}
+
+/**
+ * Normalize the document's `affiliations` list
+ */
+export function normalizeAffiliations(value: unknown): QuartoAffiliation[] {
+  return toArray(value)
+    .map(normalizeAffiliation)
+    .filter((affiliation) => affiliation !== undefined);
+}
+
+/**
+ * Normalize a role to its CRediT term where recognized
+ */
+function normalizeRole(role: string, degree?: unknown): CreditRole {
+  const name = role.trim();
+  const normalizedDegree =
+    typeof degree === "string" ? degree.toLowerCase() : undefined;
+
+  return compact({
+    role: CREDIT_ROLES_BY_KEY.get(roleKey(name)) ?? name,
+    degree: DEGREES.find((d) => d === normalizedDegree),
+  });
+}
+
+/**
+ * Normalize roles given as names, `{ role: degree }` maps or a mix
+ */
+function normalizeRoles(value: unknown): CreditRole[] {
+  return toArray(value).flatMap((item) => {
+    if (typeof item === "string") {
+      return item.trim() ? [normalizeRole(item)] : [];
+    }
+    if (isRecord(item)) {
+      if (typeof item.role === "string") {
+        return [normalizeRole(item.role, item.degree)];
+      }
+      return Object.entries(item).map(([role, degree]) =>
+        normalizeRole(role, degree),
+      );
+    }
+    return [];
+  });
+}
+
+/**
+ * Build the display name from a string or `{ given, family, literal }`
+ */
+function normalizeName(
+  value: unknown,
+): Pick<QuartoAuthor, "name" | "given" | "family"> | undefined {
+  if (!isRecord(value)) {
+    const name = optionalString(value);
+    return name ? { name } : undefined;
+  }
+
+  const given = optionalString(value.given);
+  const family = optionalString(value.family);
+  const name =
+    optionalString(value.literal) ??
+    ([given, family].filter(Boolean).join(" ") || undefined);
+
+  return name ? compact({ name, given, family }) : undefined;
+}
+
+/**
+ * Strip the URL prefix from an ORCID iD
+ */
+function normalizeOrcid(value: unknown): string | undefined {
+  return optionalString(value)?.replace(/^https?:\/\/(www\.)?orcid\.org\//, "");
+}
+
+/**
+ * Normalize one author, resolving affiliation references by ID
+ */
+function normalizeAuthorObject(
+  value: unknown,
+  affiliationsById: Map<string, QuartoAffiliation>,
+): QuartoAuthor | undefined {
+  const fields = isRecord(value) ? value : { name: value };
+  const name = normalizeName(fields.name);
+  if (!name) {
+    return undefined;
+  }
+
+  const attributes = isRecord(fields.attributes) ? fields.attributes : {};
+  const affiliations = toArray(
+    fields.affiliations ?? fields.affiliation,
+  ).flatMap((item) => {
+    const ref = isRecord(item) ? optionalString(item.ref) : undefined;
+    if (ref) {
+      return [affiliationsById.get(ref) ?? { id: ref, name: ref }];
+    }
+    const affiliation = normalizeAffiliation(item);
+    return affiliation ? [affiliation] : [];
+  });
+
+  return compact({
+    ...name,
+    id: optionalString(fields.id),
+    email: optionalString(fields.email),
+    url: optionalString(fields.url),
+    orcid: normalizeOrcid(fields.orcid),
+    corresponding: Boolean(fields.corresponding ?? attributes.corresponding),
+    equalContributor: Boolean(
+      fields["equal-contributor"] ?? attributes["equal-contributor"],
+    ),
+    roles: normalizeRoles(fields.roles ?? fields.role),
+    affiliations,
+  });
+}
+
+/**
+ * Normalize the `author` field
+ *
+ * Plain names are kept as a string or an array of strings. As soon as one
+ * author is an object, every author is normalized to a `QuartoAuthor`.
+ * Affiliation references (`ref: id`) resolve against the document's
+ * `affiliations` list and affiliations defined inline with an `id`.
+ */
+export function normalizeAuthors(
+  author: unknown,
+  affiliations?: unknown,
+): string | string[] | QuartoAuthor[] {
+  if (typeof author === "string") {
+    return author;
+  }
+
+  const authors = toArray(author);
+  if (!authors.some(isRecord)) {
+    return authors.map((a) => String(a));
+  }
+
+  const affiliationsById = new Map<string, QuartoAffiliation>();
+  const inline = authors.flatMap((a) =>
+    isRecord(a) ? toArray(a.affiliations ?? a.affiliation) : [],
+  );
+  for (const affiliation of [
+    ...normalizeAffiliations(affiliations),
+    ...normalizeAffiliations(inline),
+  ]) {
+    if (affiliation.id && !affiliationsById.has(affiliation.id)) {
+      affiliationsById.set(affiliation.id, affiliation);
+    }
+  }
+
+  return authors
+    .map((a) => normalizeAuthorObject(a, affiliationsById))
+    .filter((a) => a !== undefined);
+}
+
+/**
+ * Reduce structured authors to their display names
+ */
+export function flattenAuthorNames(
+  author: string | string[] | QuartoAuthor[],
+): string | string[] {
+  if (typeof author === "string") {
+    return author;
+  }
+  return author.map((a) => (typeof a === "string" ? a : a.name));
+}
@@ -0,0 +1,232 @@
+/**
+ * Quarto date handling: special date values, time zones and date-format
+ */
+
+import { stat } from "fs/promises";
+import { QuartoConfigError } from "../utils/errors.js";
+
+/**
+ * Frontmatter fields holding dates
+ */
+export const DATE_FIELDS = ["date", "date-modified"] as const;
+
+/**
+ * Options for resolving dates
+ */
+export interface DateResolutionOptions {
+  /** IANA time zone for dates without a time (default: UTC) */
+  timezone?: string;
+  /** Current time, for 'today' and 'now' */
+  now?: Date;
+}
+
+/**
+ * Calendar parts of a date in a time zone
+ */
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const BARE_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Throw if a time zone isn't a valid IANA name
+ */
+export function assertTimeZone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new QuartoConfigError(
+      `Invalid timezone '${timezone}'. Use an IANA name such as 'America/New_York'.`,
+    );
+  }
+}
+
+/**
+ * Get the calendar parts of a date in a time zone
+ */
+export function getDateParts(date: Date, timezone = "UTC"): DateParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)!.value;
+
+  return {
+    year: Number(part("year")),
+    month: Number(part("month")),
+    day: Number(part("day")),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+function getTimeZoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)!.value);
+
+  const asUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Midnight of a calendar date in a time zone
+ */
+export function startOfDay(
+  year: number,
+  month: number,
+  day: number,
+  timezone = "UTC",
+): Date {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  let instant = utcMidnight - getTimeZoneOffset(utcMidnight, timezone);
+  // Correct once more in case the offset changed in between (DST)
+  instant = utcMidnight - getTimeZoneOffset(instant, timezone);
+  return new Date(instant);
+}
+
+/**
+ * Check if a value is a date without a time, such as "2025-11-24"
+ * Date objects always carry a time, so only strings qualify
+ */
+export function isDateOnly(value: unknown): value is string {
+  return typeof value === "string" && BARE_DATE.test(value.trim());
+}
+
+/**
+ * Resolve a frontmatter date value
+ * - 'today': Midnight of the current date
+ * - 'now': The current date and time
+ * - 'last-modified': The source file's modification time
+ * Dates without a time are read as midnight in the time zone, and other
+ * values, including Date objects, are returned unchanged.
+ */
+export function resolveDateValue(
+  value: unknown,
+  options: DateResolutionOptions & { lastModified?: Date },
+): unknown {
+  const timezone = options.timezone ?? "UTC";
+  const now = options.now ?? new Date();
+
+  if (value === "now") {
+    return now;
+  }
+  if (value === "today") {
+    const { year, month, day } = getDateParts(now, timezone);
+    return startOfDay(year, month, day, timezone);
+  }
+  if (value === "last-modified") {
+    return options.lastModified ?? value;
+  }
+
+  if (!isDateOnly(value)) {
+    return value;
+  }
+
+  const [, year, month, day] = BARE_DATE.exec(value.trim())!;
+  return startOfDay(Number(year), Number(month), Number(day), timezone);
+}
+
+/**
+ * Resolve the date fields of a document's metadata
+ * The file is only read for its modification time if a date is 'last-modified'
+ */
+export async function resolveDateFields<T extends Record<string, unknown>>(
+  metadata: T,
+  filePath: string,
+  options: DateResolutionOptions = {},
+): Promise<T> {
+  const usesLastModified = DATE_FIELDS.some(
+    (field) => metadata[field] === "last-modified",
+  );
+  const lastModified = usesLastModified
+    ? (await stat(filePath)).mtime
+    : undefined;
+
+  const resolved: Record<string, unknown> = { ...metadata };
+  for (const field of DATE_FIELDS) {
+    if (resolved[field] !== undefined) {
+      resolved[field] = resolveDateValue(resolved[field], {
+        ...options,
+        lastModified,
+      });
+    }
+  }
+  return resolved as T;
+}
+
+/**
+ * Named formats accepted by Quarto's `date-format`
+ */
+const NAMED_FORMATS = ["full", "long", "medium", "short"] as const;
+
+/**
+ * Format a date like Quarto's `date-format`
+ *
+ * Accepts the named formats `full`, `long`, `medium`, `short` and `iso`, or
+ * a pattern with the tokens YYYY, YY, MMMM, MMM, MM, M, DD, D, dddd and ddd.
+ * Text in square brackets is kept as is.
+ */
+export function formatDate(
+  date: Date,
+  format: string,
+  options: { timezone?: string; locale?: string } = {},
+): string {
+  const timeZone = options.timezone ?? "UTC";
+  const locale = options.locale ?? "en-US";
+
+  const dateStyle = NAMED_FORMATS.find((style) => style === format);
+  if (dateStyle) {
+    return new Intl.DateTimeFormat(locale, { dateStyle, timeZone }).format(
+      date,
+    );
+  }
+
+  const { year, month, day } = getDateParts(date, timeZone);
+  if (format === "iso") {
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  }
+
+  const name = (style: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale, { ...style, timeZone }).format(date);
+  const tokens: Record<string, () => string> = {
+    YYYY: () => String(year),
+    YY: () => String(year).slice(-2),
+    MMMM: () => name({ month: "long" }),
+    MMM: () => name({ month: "short" }),
+    MM: () => String(month).padStart(2, "0"),
+    M: () => String(month),
+    DD: () => String(day).padStart(2, "0"),
+    D: () => String(day),
+    dddd: () => name({ weekday: "long" }),
+    ddd: () => name({ weekday: "short" }),
+  };
+
+  return format.replace(
+    /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd/g,
+    (match, literal: string | undefined) =>
+      literal !== undefined ? literal : tokens[match]!(),
+  );
+}
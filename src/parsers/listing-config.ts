@@ -5,6 +5,12 @@
 import { join } from "path";
 import fg from "fast-glob";
 import type { QuartoListing, ResolvedListing } from "../types/quarto.js";
+import type {
+  QuartoLoaderConfig,
+  ListingOptions,
+  FieldMappings,
+} from "../types/loader-config.js";
+import { mergeFieldMappings } from "./metadata-normalizer.js";
 
 /**
  * Resolve listing content paths to actual .qmd files
@@ -81,6 +87,78 @@ export async function resolveListing(
   };
 }
 
+/**
+ * Map each document to the IDs of the listings it belongs to, in listing order
+ */
+export function buildListingMembership(
+  resolvedListings: ResolvedListing[],
+): Map<string, string[]> {
+  const membership = new Map<string, string[]>();
+
+  for (const { listing, files } of resolvedListings) {
+    for (const file of files) {
+      const listingIds = membership.get(file);
+      if (!listingIds) {
+        membership.set(file, [listing.id]);
+      } else if (!listingIds.includes(listing.id)) {
+        listingIds.push(listing.id);
+      }
+    }
+  }
+
+  return membership;
+}
+
+/**
+ * Merge the defaults of several listings
+ * Earlier listings take precedence over later ones
+ */
+export function mergeListingDefaults(
+  defaultsList: Array<Record<string, unknown>>,
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+
+  for (const defaults of defaultsList) {
+    for (const [key, value] of Object.entries(defaults)) {
+      if (merged[key] === undefined) {
+        merged[key] = value;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Loader options resolved for a single listing
+ */
+export interface ResolvedListingOptions extends ListingOptions {
+  fieldMappings: FieldMappings;
+}
+
+/**
+ * Merge per-listing overrides over the top-level loader configuration
+ * Field mappings are merged key by key; all other options are replaced
+ */
+export function resolveListingOptions(
+  config: QuartoLoaderConfig,
+  listingId: string,
+): ResolvedListingOptions {
+  const overrides = config.perListing?.[listingId] ?? {};
+
+  return {
+    schema: config.schema,
+    filter: config.filter,
+    transform: config.transform,
+    id: config.id,
+    ...overrides,
+    fieldMappings: mergeFieldMappings({
+      ...config.fieldMappings,
+      ...overrides.fieldMappings,
+    }),
+  };
+}
+
 /**
  * Apply listing sort configuration to entries
  */
@@ -2,7 +2,7 @@
  * Parser for rendered markdown content from Quarto output
  */
 
-import { readFile } from "fs/promises";
+import { readFile, stat } from "fs/promises";
 import { join, relative } from "path";
 import matter from "gray-matter";
 
@@ -11,17 +11,15 @@ import matter from "gray-matter";
  * Strips frontmatter if present (Quarto may include it in GFM output)
  */
 export async function readRenderedMarkdown(mdPath: string): Promise<string> {
-  try {
-    const content = await readFile(mdPath, "utf-8");
-
-    // Check if the file has frontmatter
-    // Quarto GFM output may include frontmatter, we want just the content
-    if (content.startsWith("---")) {
-      const { content: body } = matter(content);
-      return body;
-    }
+  return extractMarkdownBody(await readRenderedSource(mdPath));
+}
 
-    return content;
+/**
+ * Read a rendered .md file, including any frontmatter
+ */
+export async function readRenderedSource(mdPath: string): Promise<string> {
+  try {
+    return await readFile(mdPath, "utf-8");
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
       throw new Error(
@@ -34,6 +32,19 @@ export async function readRenderedMarkdown(mdPath: string): Promise<string> {
   }
 }
 
+/**
+ * Strip frontmatter from rendered markdown
+ * Quarto GFM output may include frontmatter, we want just the content
+ */
+export function extractMarkdownBody(content: string): string {
+  if (content.startsWith("---")) {
+    const { content: body } = matter(content);
+    return body;
+  }
+
+  return content;
+}
+
 /**
  * Convert a .qmd source path to its corresponding .md output path
  *
@@ -101,3 +112,29 @@ export async function checkRenderedFileExists(
     return false;
   }
 }
+
+/**
+ * Render status of a .qmd file's output
+ * - 'fresh': The .md file is at least as new as the .qmd source
+ * - 'stale': The .qmd source was modified after the .md file was written
+ * - 'missing': No rendered .md file exists
+ */
+export type RenderStatus = "fresh" | "stale" | "missing";
+
+/**
+ * Compare modification times of a .qmd file and its rendered .md output
+ */
+export async function checkRenderedFileStatus(
+  qmdPath: string,
+  quartoRoot: string,
+  outputDir: string,
+): Promise<RenderStatus> {
+  if (!(await checkRenderedFileExists(qmdPath, quartoRoot, outputDir))) {
+    return "missing";
+  }
+
+  const mdPath = matchQmdToMd(qmdPath, quartoRoot, outputDir);
+  const [qmdStats, mdStats] = await Promise.all([stat(qmdPath), stat(mdPath)]);
+
+  return qmdStats.mtimeMs > mdStats.mtimeMs ? "stale" : "fresh";
+}
@@ -2,14 +2,21 @@
  * Metadata normalizer with field mapping and conflict detection
  */
 
-import { basename, dirname, join } from "path";
+import { basename, dirname, join, relative, resolve, sep } from "path";
 import type { ParsedMetadata, NormalizedEntry } from "../types/quarto.js";
 import type {
   NormalizationOptions,
   FieldMappings,
+  IdCollisionStrategy,
 } from "../types/loader-config.js";
 import { DEFAULT_FIELD_MAPPINGS } from "../types/loader-config.js";
-import { FieldMappingConflictError } from "../utils/errors.js";
+import { matchQmdToMd } from "./markdown-content.js";
+import { flattenAuthorNames } from "./authors.js";
+import { formatDate, getDateParts } from "./dates.js";
+import {
+  FieldMappingConflictError,
+  EntryIdCollisionError,
+} from "../utils/errors.js";
 
 /**
  * Apply field mappings to metadata
@@ -79,6 +86,17 @@ export function inheritListingDefaults(
   return result;
 }
 
+/**
+ * Convert a single path segment into a URL-safe slug
+ */
+function sanitizeSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/[\s_]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
 /**
  * Generate a slug from filename or title
  */
@@ -86,6 +104,7 @@ export function generateSlug(
   filePath: string,
   title?: string,
   slugify?: (title: string) => string,
+  keepDatePrefix: boolean = false,
 ): string {
   if (slugify && title) {
     return slugify(title);
@@ -95,14 +114,203 @@ export function generateSlug(
   const filename = basename(filePath, ".qmd");
 
   // Remove date prefix if present (e.g., "2025-11-24-my-post" -> "my-post")
-  const slug = filename.replace(/^\d{4}-\d{2}-\d{2}-/, "");
+  const slug = keepDatePrefix
+    ? filename
+    : filename.replace(/^\d{4}-\d{2}-\d{2}-/, "");
 
   // Convert to lowercase and replace spaces/special chars
-  return slug
-    .toLowerCase()
-    .replace(/[^\w\s-]/g, "")
-    .replace(/[\s_]+/g, "-")
-    .replace(/^-+|-+$/g, "");
+  return sanitizeSlug(slug);
+}
+
+/**
+ * Generate an ID from the file path relative to the Quarto root
+ * e.g. "posts/2025-11-24-welcome.qmd" -> "posts/2025-11-24-welcome"
+ */
+export function generatePathId(filePath: string, basePath: string): string {
+  return relative(basePath, filePath)
+    .replace(/\.qmd$/, "")
+    .split(sep)
+    .map(sanitizeSlug)
+    .filter(Boolean)
+    .join("/")
+    .replace(/(^|\/)index$/, "");
+}
+
+/**
+ * Build an ID from a permalink pattern such as "/:year/:month/:slug"
+ * Empty segments (e.g. a missing date) are dropped
+ */
+export function applyPermalinkPattern(
+  pattern: string,
+  values: { slug: string; path: string; date?: Date },
+  timezone = "UTC",
+): string {
+  const date = values.date && getDateParts(values.date, timezone);
+  const tokens: Record<string, string> = {
+    year: date ? String(date.year) : "",
+    month: date ? String(date.month).padStart(2, "0") : "",
+    day: date ? String(date.day).padStart(2, "0") : "",
+    slug: values.slug,
+    path: values.path,
+  };
+
+  return pattern
+    .replace(/:(year|month|day|slug|path)\b/g, (_, token: string) => {
+      return tokens[token] ?? "";
+    })
+    .split("/")
+    .filter(Boolean)
+    .join("/");
+}
+
+/**
+ * Generate the entry ID and slug for a document
+ *
+ * The slug comes from the `slug` frontmatter field, the configured slugify
+ * function or the file name, where "foo/index.qmd" is treated as "foo".
+ * The ID is then built from the slug according to the ID configuration.
+ */
+export function generateEntryId(
+  filePath: string,
+  metadata: Record<string, unknown>,
+  options: NormalizationOptions,
+): { id: string; slug: string } {
+  const idConfig = options.id ?? {};
+
+  // "foo/index.qmd" takes its name from the directory, except the
+  // project's root index, which stays "index" wherever the project lives
+  const isIndex =
+    basename(filePath, ".qmd") === "index" &&
+    resolve(dirname(filePath)) !== resolve(options.basePath);
+  const namedPath = isIndex ? dirname(filePath) : filePath;
+
+  const slug =
+    typeof metadata.slug === "string" && metadata.slug.trim()
+      ? metadata.slug.trim().replace(/^\/+|\/+$/g, "")
+      : generateSlug(
+          namedPath,
+          metadata.title as string | undefined,
+          idConfig.slugify,
+        );
+
+  const path = relative(options.basePath, dirname(namedPath))
+    .split(sep)
+    .map(sanitizeSlug)
+    .filter(Boolean)
+    .join("/");
+
+  const dateFieldName = options.fieldMappings["date"] || "date";
+  const date = metadata[dateFieldName];
+
+  const pattern =
+    idConfig.pattern ??
+    (idConfig.strategy === "path" ? ":path/:slug" : ":slug");
+
+  const id = applyPermalinkPattern(
+    pattern,
+    {
+      slug,
+      path,
+      date: date instanceof Date && !isNaN(date.getTime()) ? date : undefined,
+    },
+    options.timezone,
+  );
+
+  return { id: id || slug, slug };
+}
+
+/**
+ * Candidate entry for ID collision resolution
+ */
+export interface IdCandidate {
+  id: string;
+  filePath: string;
+}
+
+/**
+ * Detect duplicate IDs and resolve them according to the given strategy
+ *
+ * @param candidates - Entries of the current listing
+ * @param strategy - Collision resolution strategy
+ * @param basePath - Quarto root, used for path-based IDs
+ * @param claimed - IDs claimed by earlier listings (id -> source file), updated in place
+ * @param logger - Warned when 'keep-date' or 'path' falls back to numeric suffixes
+ * @returns Copies of the candidates with unique IDs, in the original order
+ */
+export function resolveIdCollisions<T extends IdCandidate>(
+  candidates: T[],
+  strategy: IdCollisionStrategy,
+  basePath: string,
+  claimed: Map<string, string> = new Map(),
+  logger?: { warn: (msg: string) => void },
+): T[] {
+  const result = candidates.map((candidate) => ({ ...candidate }));
+  const byPath = (a: T, b: T) => a.filePath.localeCompare(b.filePath);
+
+  // Group candidates by generated ID
+  const groups = new Map<string, T[]>();
+  for (const candidate of result) {
+    const group = groups.get(candidate.id);
+    if (group) {
+      group.push(candidate);
+    } else {
+      groups.set(candidate.id, [candidate]);
+    }
+  }
+
+  for (const [id, group] of groups) {
+    const owner = claimed.get(id);
+    // The same document appearing in an earlier listing is not a collision
+    const contenders = group.filter((c) => c.filePath !== owner).sort(byPath);
+    if (contenders.length + (owner ? 1 : 0) < 2) {
+      continue;
+    }
+
+    if (strategy === "error") {
+      throw new EntryIdCollisionError(id, [
+        ...(owner ? [owner] : []),
+        ...contenders.map((c) => c.filePath),
+      ]);
+    }
+
+    for (const candidate of contenders) {
+      if (strategy === "keep-date") {
+        // Swap the undated file name slug for the dated one, keeping any prefix
+        const undated = generateSlug(candidate.filePath);
+        if (undated && candidate.id.endsWith(undated)) {
+          candidate.id =
+            candidate.id.slice(0, -undated.length) +
+            generateSlug(candidate.filePath, undefined, undefined, true);
+        }
+      } else if (strategy === "path") {
+        candidate.id = generatePathId(candidate.filePath, basePath);
+      }
+      // "suffix" keeps the ID here; the pass below numbers the duplicates
+    }
+  }
+
+  // Claim IDs in a stable order, numbering anything still duplicated
+  for (const candidate of [...result].sort(byPath)) {
+    const baseId = candidate.id;
+    const owner = claimed.get(baseId);
+    let counter = 2;
+    while (
+      claimed.has(candidate.id) &&
+      claimed.get(candidate.id) !== candidate.filePath
+    ) {
+      candidate.id = `${baseId}-${counter++}`;
+    }
+    claimed.set(candidate.id, candidate.filePath);
+
+    // 'keep-date' and 'path' only number IDs they couldn't tell apart
+    if (strategy !== "suffix" && candidate.id !== baseId && owner) {
+      logger?.warn(
+        `Entry ID '${baseId}' of ${relative(basePath, candidate.filePath)} still collides with ${relative(basePath, owner)} under idCollisions '${strategy}', using '${candidate.id}'`,
+      );
+    }
+  }
+
+  return result;
 }
 
 /**
@@ -128,6 +336,15 @@ export function resolveImagePath(
     return imagePath;
   }
 
+  // For Astro's image() helper, express the path relative to the rendered .md
+  if (options.astroImage && !imagePath.startsWith("/")) {
+    const mdPath = matchQmdToMd(qmdPath, options.basePath, options.outputDir);
+    const rel = relative(dirname(mdPath), join(dirname(qmdPath), imagePath))
+      .split(sep)
+      .join("/");
+    return rel.startsWith(".") ? rel : `./${rel}`;
+  }
+
   // For relative paths, resolve relative to the .qmd file location
   if (!imagePath.startsWith("/")) {
     const qmdDir = dirname(qmdPath);
@@ -151,6 +368,24 @@ export function normalizeMetadata(
     ? inheritListingDefaults(raw as Record<string, unknown>, listingDefaults)
     : { ...raw };
 
+  // Format the date with the listing's or document's date-format
+  const dateFormat = metadata["date-format"];
+  if (
+    typeof dateFormat === "string" &&
+    metadata.date instanceof Date &&
+    !isNaN(metadata.date.getTime())
+  ) {
+    metadata["date-formatted"] = formatDate(metadata.date, dateFormat, {
+      timezone: options.timezone,
+      locale: typeof metadata.lang === "string" ? metadata.lang : undefined,
+    });
+  }
+
+  // Reduce structured authors to names if configured
+  if (options.flattenAuthors && Array.isArray(metadata.author)) {
+    metadata.author = flattenAuthorNames(metadata.author);
+  }
+
   // 2. Apply field mappings
   metadata = applyFieldMappings(metadata, options.fieldMappings, filePath);
 
@@ -165,12 +400,7 @@ export function normalizeMetadata(
   }
 
   // 4. Generate ID and slug
-  const id = generateSlug(
-    filePath,
-    metadata.title as string | undefined,
-    options.slugify,
-  );
-  const slug = id;
+  const { id, slug } = generateEntryId(filePath, metadata, options);
 
   // 5. Ensure draft field exists
   if (metadata.draft === undefined) {
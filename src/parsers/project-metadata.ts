@@ -0,0 +1,298 @@
+/**
+ * Project, metadata-files and directory metadata inherited by documents
+ */
+
+import { readFile } from "fs/promises";
+import { dirname, join, relative, resolve, sep } from "path";
+import { parse as parseYaml } from "yaml";
+import type { QuartoConfig } from "../types/quarto.js";
+import { QuartoConfigError } from "../utils/errors.js";
+
+/**
+ * Keys of `_quarto.yml` that configure the project rather than documents
+ */
+const PROJECT_KEYS = [
+  "project",
+  "website",
+  "book",
+  "manuscript",
+  "profile",
+  "metadata-files",
+  "listing",
+  "editor",
+  "brand",
+];
+
+/**
+ * Render and format options that aren't content metadata, left out of
+ * every layer except the document's own frontmatter
+ */
+const RENDER_KEYS = [
+  "format",
+  "execute",
+  "execute-dir",
+  "engine",
+  "jupyter",
+  "knitr",
+  "filters",
+  "shortcodes",
+  "resources",
+  "bibliography",
+  "csl",
+  "citeproc",
+  "cite-method",
+  "crossref",
+  "toc",
+  "theme",
+  "css",
+  "template",
+  "template-partials",
+  "highlight-style",
+  "syntax-definitions",
+  "html-math-method",
+  "anchor-sections",
+  "smooth-scroll",
+  "page-layout",
+  "grid",
+  "mainfont",
+  "monofont",
+  "fontsize",
+  "linestretch",
+  "embed-resources",
+  "self-contained",
+  "reference-location",
+  "citation-location",
+  "title-block-banner",
+  "title-block-style",
+  "comments",
+  "output-file",
+  "output-ext",
+];
+
+/**
+ * Prefixes of render option families such as `toc-depth` or `code-fold`
+ */
+const RENDER_KEY_PREFIXES = [
+  "toc-",
+  "number-",
+  "code-",
+  "fig-",
+  "tbl-",
+  "include-",
+  "link-external-",
+];
+
+function isRenderKey(key: string): boolean {
+  return (
+    RENDER_KEYS.includes(key) ||
+    RENDER_KEY_PREFIXES.some((prefix) => key.startsWith(prefix))
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Merge two metadata values with Quarto's semantics
+ * Objects merge key by key, arrays concatenate (a scalar merged with an
+ * array joins it) keeping the last of duplicate values, and other values
+ * are replaced
+ */
+function mergeValue(target: unknown, source: unknown): unknown {
+  if (source === undefined) {
+    return target;
+  }
+
+  if (Array.isArray(target) || Array.isArray(source)) {
+    if (!target) {
+      return Array.isArray(source) ? [...source] : source;
+    }
+    if (!source) {
+      return target;
+    }
+
+    const combined = [
+      ...(Array.isArray(target) ? target : [target]),
+      ...(Array.isArray(source) ? source : [source]),
+    ];
+    const seen = new Set<string>();
+    return combined
+      .reverse()
+      .filter((value) => {
+        const key = JSON.stringify(value);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .reverse();
+  }
+
+  if (isPlainObject(source)) {
+    const merged: Record<string, unknown> = isPlainObject(target)
+      ? { ...target }
+      : {};
+    for (const [key, value] of Object.entries(source)) {
+      merged[key] = mergeValue(merged[key], value);
+    }
+    return merged;
+  }
+
+  return source;
+}
+
+/**
+ * Merge metadata layers in order, later layers taking precedence
+ */
+export function mergeMetadata(
+  ...layers: Array<Record<string, unknown>>
+): Record<string, unknown> {
+  return layers.reduce<Record<string, unknown>>(
+    (merged, layer) => mergeValue(merged, layer) as Record<string, unknown>,
+    {},
+  );
+}
+
+function omitKeys(
+  metadata: Record<string, unknown>,
+  omit: (key: string) => boolean,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([key]) => !omit(key)),
+  );
+}
+
+/**
+ * Read a metadata YAML file
+ * Returns undefined if it doesn't exist; an empty file has no metadata
+ */
+async function readMetadataFile(
+  path: string,
+): Promise<Record<string, unknown> | undefined> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+
+  let metadata: unknown;
+  try {
+    metadata = parseYaml(content);
+  } catch (error) {
+    throw new QuartoConfigError(
+      `Failed to parse metadata file: ${(error as Error).message}`,
+      path,
+    );
+  }
+
+  if (metadata === null || metadata === undefined) {
+    return {};
+  }
+  if (!isPlainObject(metadata)) {
+    throw new QuartoConfigError(
+      "Invalid metadata file: expected YAML object",
+      path,
+    );
+  }
+  return omitKeys(metadata, isRenderKey);
+}
+
+/**
+ * Metadata documents inherit from the project and their directories
+ *
+ * Layers are merged in Quarto's order: `_quarto.yml`, the files listed in
+ * its `metadata-files`, then the `_metadata.yml` of every directory from
+ * the project root down to the document, then the document itself.
+ */
+export class MetadataChain {
+  private readonly directories = new Map<
+    string,
+    Promise<Record<string, unknown> | undefined>
+  >();
+
+  constructor(
+    private readonly root: string,
+    private readonly projectMetadata: Record<string, unknown>,
+  ) {}
+
+  /**
+   * Merge a document's frontmatter over the metadata it inherits
+   */
+  async apply(
+    filePath: string,
+    frontmatter: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    const inherited = await this.inheritedMetadata(filePath);
+    if (Object.keys(inherited).length === 0) {
+      return frontmatter;
+    }
+    return mergeMetadata(inherited, frontmatter);
+  }
+
+  /**
+   * Metadata a document inherits, without its own frontmatter
+   */
+  async inheritedMetadata(filePath: string): Promise<Record<string, unknown>> {
+    const dir = dirname(resolve(filePath));
+    const rel = relative(this.root, dir);
+    const segments =
+      rel && !rel.startsWith("..") ? rel.split(sep).filter(Boolean) : [];
+
+    const directories = [this.root];
+    for (const segment of segments) {
+      directories.push(join(directories[directories.length - 1]!, segment));
+    }
+
+    const layers = await Promise.all(
+      directories.map((directory) => this.directoryMetadata(directory)),
+    );
+    return mergeMetadata(
+      this.projectMetadata,
+      ...layers.filter((layer) => layer !== undefined),
+    );
+  }
+
+  private directoryMetadata(
+    directory: string,
+  ): Promise<Record<string, unknown> | undefined> {
+    let metadata = this.directories.get(directory);
+    if (!metadata) {
+      metadata = readMetadataFile(join(directory, "_metadata.yml"));
+      this.directories.set(directory, metadata);
+    }
+    return metadata;
+  }
+}
+
+/**
+ * Create the metadata chain for a project
+ * Reads the files listed in `metadata-files`, which must exist
+ */
+export async function createMetadataChain(
+  root: string,
+  config: QuartoConfig,
+): Promise<MetadataChain> {
+  const layers = [
+    omitKeys(config, (key) => PROJECT_KEYS.includes(key) || isRenderKey(key)),
+  ];
+
+  const metadataFiles = config["metadata-files"];
+  for (const file of Array.isArray(metadataFiles) ? metadataFiles : []) {
+    const path = resolve(root, String(file));
+    const metadata = await readMetadataFile(path);
+    if (!metadata) {
+      throw new QuartoConfigError(`Metadata file not found: ${path}`, path);
+    }
+    layers.push(metadata);
+  }
+
+  return new MetadataChain(resolve(root), mergeMetadata(...layers));
+}
@@ -4,30 +4,156 @@
 
 import { readFile } from "fs/promises";
 import matter from "gray-matter";
+import { LineCounter, isMap, isScalar, isSeq, parseDocument } from "yaml";
 import type { QmdDocument, ParsedMetadata } from "../types/quarto.js";
 import { QmdParseError } from "../utils/errors.js";
+import { normalizeAffiliations, normalizeAuthors } from "./authors.js";
+import { DATE_FIELDS, isDateOnly } from "./dates.js";
 
 /**
  * Parse a .qmd file and extract frontmatter
  */
 export async function parseQmdFile(path: string): Promise<QmdDocument> {
+  return parseQmdContent(await readQmdSource(path), path);
+}
+
+/**
+ * Read the source of a .qmd file
+ */
+export async function readQmdSource(path: string): Promise<string> {
   try {
-    const content = await readFile(path, "utf-8");
-    const { data, content: body, matter: rawFrontmatter } = matter(content);
+    return await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new QmdParseError(`File not found`, path);
+    }
+
+    throw new QmdParseError((error as Error).message, path);
+  }
+}
+
+/**
+ * Parse the contents of a .qmd file and extract frontmatter
+ */
+export function parseQmdContent(content: string, path: string): QmdDocument {
+  try {
+    // Passing options disables gray-matter's input cache, which stores a
+    // file before parsing it and would return empty data for a repeated
+    // malformed input instead of throwing again
+    const { data, content: body, matter: rawFrontmatter } = matter(content, {});
 
     return {
       path,
-      frontmatter: data as Record<string, unknown>,
+      frontmatter: keepBareDates(
+        data as Record<string, unknown>,
+        rawFrontmatter || "",
+      ),
       content: body,
       rawFrontmatter: rawFrontmatter || "",
     };
   } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      throw new QmdParseError(`File not found`, path);
+    // YAML errors carry a 0-based line within the frontmatter, which
+    // starts on the line of the opening '---'
+    const { mark, reason } = error as {
+      mark?: { line: number };
+      reason?: string;
+    };
+    throw new QmdParseError(
+      reason ?? (error as Error).message,
+      path,
+      mark ? mark.line + 1 : undefined,
+    );
+  }
+}
+
+/**
+ * Restore date fields written without a time, such as `date: 2025-11-24`,
+ * to their source text
+ * YAML reads them as UTC midnight, which can't be told apart from an
+ * explicit `2025-11-24T00:00:00Z`; as text they are later read in the
+ * configured time zone.
+ */
+function keepBareDates(
+  frontmatter: Record<string, unknown>,
+  rawFrontmatter: string,
+): Record<string, unknown> {
+  const fields = DATE_FIELDS.filter(
+    (field) => frontmatter[field] instanceof Date,
+  );
+  if (fields.length === 0) {
+    return frontmatter;
+  }
+
+  const doc = parseDocument(rawFrontmatter);
+  const result = { ...frontmatter };
+  for (const field of fields) {
+    const node = doc.get(field, true);
+    if (isScalar(node) && isDateOnly(node.source)) {
+      result[field] = node.source.trim();
     }
+  }
+  return result;
+}
 
-    throw new QmdParseError((error as Error).message, path);
+/**
+ * Line and column (both 1-based) in a source file
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Find the position of a frontmatter key in a .qmd source
+ * For nested paths, returns the position of the deepest key that exists
+ *
+ * @param source - Contents of the .qmd file
+ * @param path - Key path, e.g. ["author", 0, "name"]
+ */
+export function locateFrontmatterKey(
+  source: string,
+  path: Array<string | number>,
+): SourcePosition | undefined {
+  const opening = /^\uFEFF?---[ \t]*\r?\n/.exec(source);
+  if (!opening) {
+    return undefined;
+  }
+
+  const rest = source.slice(opening[0].length);
+  const closing = /^---[ \t]*$/m.exec(rest);
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(closing ? rest.slice(0, closing.index) : rest, {
+    lineCounter,
+  });
+
+  let node: unknown = doc.contents;
+  let offset: number | undefined;
+  for (const segment of path) {
+    if (isMap(node)) {
+      const pair = node.items.find(
+        (item) =>
+          isScalar(item.key) && String(item.key.value) === String(segment),
+      );
+      if (!pair || !isScalar(pair.key) || !pair.key.range) break;
+      offset = pair.key.range[0];
+      node = pair.value;
+    } else if (isSeq(node) && typeof segment === "number") {
+      const item = node.items[segment] as { range?: [number, number, number] };
+      if (!item?.range) break;
+      offset = item.range[0];
+      node = item;
+    } else {
+      break;
+    }
   }
+
+  if (offset === undefined) {
+    return undefined;
+  }
+
+  // The frontmatter starts on the line after the opening '---'
+  const { line, col } = lineCounter.linePos(offset);
+  return { line: line + 1, column: col };
 }
 
 /**
@@ -53,7 +179,11 @@ export function extractMetadata(
   }
 
   if (metadata.author !== undefined) {
-    metadata.author = normalizeAuthor(metadata.author);
+    metadata.author = normalizeAuthors(metadata.author, metadata.affiliations);
+  }
+
+  if (metadata.affiliations !== undefined) {
+    metadata.affiliations = normalizeAffiliations(metadata.affiliations);
   }
 
   if (metadata.categories !== undefined) {
@@ -92,21 +222,6 @@ export function normalizeDate(date: unknown): Date | string {
   return date as string;
 }
 
-/**
- * Normalize author field to string or array
- */
-function normalizeAuthor(author: unknown): string | string[] {
-  if (typeof author === "string") {
-    return author;
-  }
-
-  if (Array.isArray(author)) {
-    return author.map((a) => String(a));
-  }
-
-  return String(author);
-}
-
 /**
  * Normalize array fields
  */
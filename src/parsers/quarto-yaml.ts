@@ -2,10 +2,13 @@
  * Parser for Quarto YAML configuration files (_quarto.yml)
  */
 
-import { readFile } from "fs/promises";
+import { access, readFile } from "fs/promises";
+import { join } from "path";
 import { parse as parseYaml } from "yaml";
 import type { QuartoConfig, QuartoListing } from "../types/quarto.js";
-import { QuartoConfigError } from "../utils/errors.js";
+import type { QuartoLoaderConfig } from "../types/loader-config.js";
+import { ListingNotFoundError, QuartoConfigError } from "../utils/errors.js";
+import { mergeMetadata } from "./project-metadata.js";
 
 /**
  * Parse _quarto.yml configuration file
@@ -42,6 +45,73 @@ export async function parseQuartoYaml(path: string): Promise<QuartoConfig> {
   }
 }
 
+function toList(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+  }
+  return Array.isArray(value) ? value.flatMap(toList) : [];
+}
+
+/**
+ * Resolve the active profiles like Quarto
+ *
+ * The requested profiles (comma-separated, as in QUARTO_PROFILE) fall back
+ * to `profile.default`. For each `profile.group` with no active profile,
+ * the group's first profile is activated.
+ */
+export function resolveProfiles(
+  config: QuartoConfig,
+  profile?: string,
+): string[] {
+  const settings = config.profile ?? {};
+  const requested = toList(profile);
+  const active = requested.length > 0 ? requested : toList(settings.default);
+
+  const groups = settings.group ?? [];
+  // A single group can be given as a flat list of profile names
+  const groupLists = groups.every((group) => typeof group === "string")
+    ? [groups as string[]]
+    : groups.map(toList);
+  for (const group of groupLists) {
+    if (group.length > 0 && !group.some((name) => active.includes(name))) {
+      active.push(group[0]!);
+    }
+  }
+
+  return [...new Set(active)];
+}
+
+/**
+ * Load the project configuration with its active profiles applied
+ * `_quarto-<profile>.yml` files are merged over `_quarto.yml` in profile
+ * order; profiles without a file are allowed.
+ */
+export async function loadQuartoConfig(
+  quartoRoot: string,
+  profile?: string,
+): Promise<{ config: QuartoConfig; profiles: string[] }> {
+  const baseConfig = await parseQuartoYaml(join(quartoRoot, "_quarto.yml"));
+  const profiles = resolveProfiles(baseConfig, profile);
+
+  const layers: QuartoConfig[] = [baseConfig];
+  for (const name of profiles) {
+    const profilePath = join(quartoRoot, `_quarto-${name}.yml`);
+    try {
+      await access(profilePath);
+    } catch {
+      continue;
+    }
+    layers.push(await parseQuartoYaml(profilePath));
+  }
+
+  const config =
+    layers.length > 1 ? (mergeMetadata(...layers) as QuartoConfig) : baseConfig;
+  return { config, profiles };
+}
+
 /**
  * Extract listing definitions from Quarto config
  */
@@ -91,6 +161,32 @@ export function findListing(
   return listings.find((l) => l.id === listingId);
 }
 
+/**
+ * Select the listings to load from the loader's `listings` option
+ * Defaults to every listing; throws if a requested listing doesn't exist
+ */
+export function selectListings(
+  config: QuartoConfig,
+  listings: QuartoLoaderConfig["listings"],
+): QuartoListing[] {
+  const allListings = extractListings(config);
+  if (!listings || listings === "all") {
+    return allListings;
+  }
+
+  const listingIds = typeof listings === "string" ? [listings] : listings;
+  return listingIds.map((listingId) => {
+    const listing = allListings.find((l) => l.id === listingId);
+    if (!listing) {
+      throw new ListingNotFoundError(
+        listingId,
+        allListings.map((l) => l.id),
+      );
+    }
+    return listing;
+  });
+}
+
 /**
  * Get all listing IDs from config
  */
@@ -4,6 +4,48 @@
  */
 
 import { z } from "zod";
+import type { FieldMappings } from "../types/loader-config.js";
+import { DEFAULT_FIELD_MAPPINGS } from "../types/loader-config.js";
+
+/**
+ * Schema for a normalized Quarto affiliation
+ */
+export const affiliationSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  department: z.string().optional(),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  region: z.string().optional(),
+  country: z.string().optional(),
+  postalCode: z.string().optional(),
+  url: z.string().optional(),
+  ror: z.string().optional(),
+});
+
+/**
+ * Schema for a normalized Quarto author
+ */
+export const authorSchema = z.object({
+  name: z.string(),
+  given: z.string().optional(),
+  family: z.string().optional(),
+  id: z.string().optional(),
+  email: z.string().optional(),
+  url: z.string().optional(),
+  orcid: z.string().optional(),
+  corresponding: z.boolean().default(false),
+  equalContributor: z.boolean().default(false),
+  roles: z
+    .array(
+      z.object({
+        role: z.string(),
+        degree: z.enum(["lead", "supporting", "equal"]).optional(),
+      }),
+    )
+    .default([]),
+  affiliations: z.array(affiliationSchema).default([]),
+});
 
 /**
  * Common field schemas for Astro content collections
@@ -14,13 +56,22 @@ export const commonFields = {
   title: z.string(),
   description: z.string().optional(),
 
-  // Author field - can be string or array
-  author: z.union([z.string(), z.array(z.string())]).optional(),
+  // Author field - a name, a list of names, or structured authors
+  author: z
+    .union([z.string(), z.array(z.string()), z.array(authorSchema)])
+    .optional(),
 
   // Date fields (using Astro blog naming convention)
   pubDate: z.date(),
   updatedDate: z.date().optional(),
 
+  // Date formatted with the listing's or document's date-format
+  pubDateFormatted: z.string().optional(),
+
+  // Git-derived fields (with the gitDates option)
+  createdDate: z.date().optional(),
+  contributors: z.array(z.string()).optional(),
+
   // Image field (heroImage per Astro blog convention)
   heroImage: z.string().optional(),
 
@@ -30,6 +81,9 @@ export const commonFields = {
 
   // Publishing control
   draft: z.boolean().default(false),
+
+  // IDs of every listing the entry belongs to (set by the loader)
+  listings: z.array(z.string()).default([]),
 } as const;
 
 /**
@@ -53,3 +107,25 @@ export function getFieldSchema(
 ): z.ZodType<unknown> | undefined {
   return (commonFields as Record<string, z.ZodType<unknown>>)[fieldName];
 }
+
+/**
+ * Get the common field schemas keyed by their names under the given mappings
+ * e.g. with { date: "publishedAt" }, the pubDate schema is keyed as publishedAt
+ */
+export function getMappedCommonFields(
+  fieldMappings: FieldMappings,
+): Record<string, z.ZodTypeAny> {
+  const fields: Record<string, z.ZodTypeAny> = { ...commonFields };
+
+  for (const [quartoField, defaultName] of Object.entries(
+    DEFAULT_FIELD_MAPPINGS,
+  )) {
+    const mappedName = fieldMappings[quartoField];
+    if (mappedName && mappedName !== defaultName && defaultName in fields) {
+      fields[mappedName] = fields[defaultName]!;
+      delete fields[defaultName];
+    }
+  }
+
+  return fields;
+}
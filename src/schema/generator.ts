@@ -4,56 +4,180 @@
 
 import { z } from "zod";
 import type { QuartoListing } from "../types/quarto.js";
-import type { SchemaConfig } from "../types/loader-config.js";
-import { commonFields, getFieldSchema } from "./common-fields.js";
+import type { FieldMappings, SchemaConfig } from "../types/loader-config.js";
+import { DEFAULT_FIELD_MAPPINGS } from "../types/loader-config.js";
+import {
+  commonFields,
+  getFieldSchema,
+  getMappedCommonFields,
+} from "./common-fields.js";
 
 /**
  * Schema generation options
  */
 export interface SchemaOptions {
   strictMode?: boolean;
+  /** Fields every document must have, under their mapped names */
   requiredFields?: string[];
   customFields?: Record<string, z.ZodType<unknown>>;
+  /** Types of fields declared by the listing, under their mapped names */
+  fieldTypes?: Record<string, z.ZodTypeAny>;
+  /** Field mappings the documents were normalized with */
+  fieldMappings?: FieldMappings;
+  /**
+   * Infer enums for string fields
+   * - true: For fields with a few distinct values that repeat
+   * - string[]: For the listed fields, whatever their values
+   */
+  enums?: boolean | string[];
 }
 
 /**
- * Infer Zod type from a value
+ * Options for inferring a single field
  */
-function inferTypeFromValue(value: unknown): z.ZodType<unknown> {
-  if (value === null || value === undefined) {
-    return z.unknown();
+export interface InferFieldOptions {
+  /**
+   * Common field schemas keyed by field name
+   * Defaults to the common fields under the default mappings
+   */
+  commonFields?: Record<string, z.ZodTypeAny>;
+  /**
+   * Infer an enum when every value is a string
+   * - 'auto': Only for a few distinct values that repeat across documents
+   * - 'always': Whatever the values
+   */
+  enum?: "auto" | "always";
+}
+
+/**
+ * Maximum number of distinct values for an automatically inferred enum
+ */
+export const MAX_INFERRED_ENUM_VALUES = 5;
+
+/**
+ * Kind of a frontmatter value, used to group values before inferring
+ */
+type ValueKind =
+  | "string"
+  | "number"
+  | "boolean"
+  | "date"
+  | "array"
+  | "object"
+  | "unknown";
+
+function getValueKind(value: unknown): ValueKind {
+  if (value instanceof Date) return "date";
+  if (Array.isArray(value)) return "array";
+  switch (typeof value) {
+    case "string":
+    case "number":
+    case "boolean":
+      return typeof value as ValueKind;
+    case "object":
+      return "object";
+    default:
+      return "unknown";
   }
+}
 
-  if (value instanceof Date) {
-    return z.date();
+/**
+ * Infer a Zod type that accepts every value
+ * Values of different kinds produce a union, and null values make the
+ * type nullable
+ */
+function inferTypeFromValues(values: unknown[]): z.ZodTypeAny {
+  const groups = new Map<ValueKind, unknown[]>();
+  let nullable = false;
+  for (const value of values) {
+    if (value === null) {
+      nullable = true;
+    } else if (value !== undefined) {
+      const kind = getValueKind(value);
+      groups.set(kind, [...(groups.get(kind) ?? []), value]);
+    }
   }
 
-  if (typeof value === "string") {
-    return z.string();
+  if (groups.size === 0) {
+    return z.unknown();
   }
 
-  if (typeof value === "number") {
-    return z.number();
+  const types = [...groups].map(([kind, group]) =>
+    inferTypeForKind(kind, group),
+  );
+  const type =
+    types.length === 1
+      ? types[0]!
+      : z.union(types as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+
+  return nullable ? type.nullable() : type;
+}
+
+/**
+ * Infer the type of values that share a kind
+ */
+function inferTypeForKind(kind: ValueKind, values: unknown[]): z.ZodTypeAny {
+  switch (kind) {
+    case "string":
+      return z.string();
+    case "number":
+      return z.number();
+    case "boolean":
+      return z.boolean();
+    case "date":
+      return z.date();
+    case "array":
+      // Elements of every array, so mixed arrays get a union element type
+      return z.array(inferTypeFromValues((values as unknown[][]).flat()));
+    case "object":
+      return inferObjectType(values as Array<Record<string, unknown>>);
+    default:
+      return z.unknown();
   }
+}
 
-  if (typeof value === "boolean") {
-    return z.boolean();
+/**
+ * Infer an object type from several objects
+ * Keys missing from some of the objects are optional
+ */
+function inferObjectType(
+  objects: Array<Record<string, unknown>>,
+): z.ZodTypeAny {
+  const keys = new Set(objects.flatMap((object) => Object.keys(object)));
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const key of keys) {
+    const values = objects.map((object) => object[key]);
+    const type = inferTypeFromValues(values);
+    shape[key] = values.includes(undefined) ? type.optional() : type;
   }
 
-  if (Array.isArray(value)) {
-    if (value.length === 0) {
-      return z.array(z.unknown());
-    }
-    // Infer from first element
-    const elementType = inferTypeFromValue(value[0]);
-    return z.array(elementType);
+  return z.object(shape);
+}
+
+/**
+ * Infer an enum from string values
+ * Returns undefined if the values aren't all strings, or for 'auto' if
+ * they look like free text
+ */
+function inferEnumType(
+  values: unknown[],
+  mode: "auto" | "always",
+): z.ZodTypeAny | undefined {
+  if (!values.every((value) => typeof value === "string")) {
+    return undefined;
   }
 
-  if (typeof value === "object") {
-    return z.record(z.unknown());
+  const distinct = [...new Set(values as string[])].sort();
+  if (
+    mode === "auto" &&
+    (distinct.length > MAX_INFERRED_ENUM_VALUES ||
+      distinct.length >= values.length)
+  ) {
+    return undefined;
   }
 
-  return z.unknown();
+  return z.enum(distinct as [string, ...string[]]);
 }
 
 /**
@@ -62,9 +186,12 @@ function inferTypeFromValue(value: unknown): z.ZodType<unknown> {
 export function inferFieldType(
   fieldName: string,
   values: unknown[],
+  options: InferFieldOptions = {},
 ): z.ZodType<unknown> {
   // Check if it's a common field first
-  const commonSchema = getFieldSchema(fieldName);
+  const commonSchema = options.commonFields
+    ? options.commonFields[fieldName]
+    : getFieldSchema(fieldName);
   if (commonSchema) {
     return commonSchema;
   }
@@ -76,20 +203,9 @@ export function inferFieldType(
     return z.unknown().optional();
   }
 
-  // Infer from first non-undefined value
-  const baseType = inferTypeFromValue(definedValues[0]);
-
-  // Check if all values have the same type
-  const allSameType = definedValues.every((v) => {
-    const type = inferTypeFromValue(v);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return (type as any)._def?.typeName === (baseType as any)._def?.typeName;
-  });
-
-  if (!allSameType) {
-    // Mixed types - use union or unknown
-    return z.unknown().optional();
-  }
+  const baseType =
+    (options.enum && inferEnumType(definedValues, options.enum)) ??
+    inferTypeFromValues(definedValues);
 
   // If not all entries have this field, make it optional
   if (definedValues.length < values.length) {
@@ -99,6 +215,37 @@ export function inferFieldType(
   return baseType;
 }
 
+/**
+ * Zod types for the values of Quarto's listing `field-types` option
+ */
+const FIELD_TYPE_SCHEMAS: Record<string, () => z.ZodTypeAny> = {
+  date: () => z.coerce.date(),
+  number: () => z.coerce.number(),
+  minutes: () => z.coerce.number(),
+  string: () => z.string(),
+};
+
+/**
+ * Make a field schema reject missing values
+ */
+function requireField(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let required = schema;
+  while (
+    required instanceof z.ZodOptional ||
+    required instanceof z.ZodDefault
+  ) {
+    required =
+      required instanceof z.ZodOptional
+        ? required.unwrap()
+        : required.removeDefault();
+  }
+
+  // Types such as z.unknown() accept undefined on their own
+  return required.isOptional()
+    ? required.refine((value) => value !== undefined, { message: "Required" })
+    : required;
+}
+
 /**
  * Generate schema from parsed documents
  */
@@ -108,14 +255,22 @@ export function generateSchema(
   options: SchemaOptions = {},
 ): z.ZodObject<z.ZodRawShape> {
   const schemaFields: Record<string, z.ZodType<unknown>> = {};
+  const fieldMappings: FieldMappings =
+    options.fieldMappings ?? DEFAULT_FIELD_MAPPINGS;
+  const mappedCommonFields = getMappedCommonFields(fieldMappings);
+  const fieldTypes = options.fieldTypes ?? {};
+  const requiredFields = options.requiredFields ?? [];
 
-  // Collect all field names
+  // Collect all field names, including fields only the listing declares
   const allFieldNames = new Set<string>();
   for (const doc of documents) {
     for (const key of Object.keys(doc)) {
       allFieldNames.add(key);
     }
   }
+  for (const fieldName of [...Object.keys(fieldTypes), ...requiredFields]) {
+    allFieldNames.add(fieldName);
+  }
 
   // Generate schema for each field
   for (const fieldName of allFieldNames) {
@@ -124,23 +279,39 @@ export function generateSchema(
     // Use custom field schema if provided
     if (options.customFields && fieldName in options.customFields) {
       schemaFields[fieldName] = options.customFields[fieldName]!;
+    } else if (fieldName in fieldTypes) {
+      const fieldType = fieldTypes[fieldName]!;
+      schemaFields[fieldName] = values.every((value) => value !== undefined)
+        ? fieldType
+        : fieldType.optional();
     } else {
-      schemaFields[fieldName] = inferFieldType(fieldName, values);
+      const enumMode =
+        options.enums === true
+          ? "auto"
+          : Array.isArray(options.enums) && options.enums.includes(fieldName)
+            ? "always"
+            : undefined;
+      schemaFields[fieldName] = inferFieldType(fieldName, values, {
+        enum: enumMode,
+        commonFields: mappedCommonFields,
+      });
     }
 
     // Mark as required if specified
-    if (options.requiredFields?.includes(fieldName)) {
-      schemaFields[fieldName] = schemaFields[fieldName]!;
+    if (requiredFields.includes(fieldName)) {
+      schemaFields[fieldName] = requireField(schemaFields[fieldName]!);
     }
   }
 
   // Ensure minimum required fields
-  if (!schemaFields["title"]) {
-    schemaFields["title"] = commonFields.title;
+  const titleField = fieldMappings["title"] ?? "title";
+  if (!schemaFields[titleField]) {
+    schemaFields[titleField] = commonFields.title;
   }
 
-  if (!schemaFields["pubDate"] && !schemaFields["date"]) {
-    schemaFields["pubDate"] = commonFields.pubDate;
+  const dateField = fieldMappings["date"] ?? "pubDate";
+  if (!schemaFields[dateField]) {
+    schemaFields[dateField] = commonFields.pubDate;
   }
 
   return z.object(schemaFields);
@@ -182,23 +353,125 @@ export function applySchemaConfig(
   return baseSchema;
 }
 
+/**
+ * Options for creating a listing's schema
+ */
+export interface ListingSchemaOptions {
+  /** User schema configuration */
+  schema?: SchemaConfig;
+  /** Field mappings the documents were normalized with */
+  fieldMappings?: FieldMappings;
+}
+
 /**
  * Create schema from listing configuration
+ * The listing's `field-required` and `field-types` refer to Quarto field
+ * names and apply to the fields they are mapped to
  */
 export function createListingSchema(
   listing: QuartoListing,
   documents: Array<Record<string, unknown>>,
-  userConfig?: SchemaConfig,
+  options: ListingSchemaOptions = {},
   logger?: { warn: (msg: string) => void },
 ): z.ZodObject<z.ZodRawShape> {
+  const fieldMappings: FieldMappings =
+    options.fieldMappings ?? DEFAULT_FIELD_MAPPINGS;
+  const mapField = (field: string) => fieldMappings[field] ?? field;
+
   // Get required fields from listing config
-  const requiredFields = listing["field-required"] || [];
+  const requiredFields = (listing["field-required"] ?? []).map(mapField);
+
+  // Get field types from listing config
+  const fieldTypes: Record<string, z.ZodTypeAny> = {};
+  for (const [field, type] of Object.entries(listing["field-types"] ?? {})) {
+    const createType = FIELD_TYPE_SCHEMAS[type];
+    if (createType) {
+      fieldTypes[mapField(field)] = createType();
+    } else {
+      logger?.warn(
+        `Unknown field type '${type}' for field '${field}' in listing '${listing.id}'`,
+      );
+    }
+  }
 
   // Generate base schema from documents
   const generatedSchema = generateSchema(documents, listing, {
     requiredFields,
+    fieldTypes,
+    fieldMappings,
+    enums: options.schema?.enums,
   });
 
   // Apply user configuration
-  return applySchemaConfig(generatedSchema, userConfig, logger);
+  return applySchemaConfig(generatedSchema, options.schema, logger);
+}
+
+/**
+ * Describe a schema's structure so equivalent schemas compare equal
+ * Default values aren't evaluated, as they may differ on every call
+ */
+function schemaSignature(schema: z.ZodTypeAny): string {
+  return JSON.stringify(schema, (_key, item) => {
+    if (item instanceof z.ZodType) {
+      const def = item._def as Record<string, unknown>;
+      return {
+        typeName: def.typeName,
+        shape: item instanceof z.ZodObject ? item.shape : undefined,
+        innerType: def.innerType,
+        type: def.type,
+        options: def.options,
+        values: def.values,
+        checks: def.checks,
+        valueType: def.valueType,
+        // ZodEffects (refine, transform, preprocess) wrap an inner schema
+        schema: def.schema,
+        effect: (def.effect as { type?: string } | undefined)?.type,
+      };
+    }
+    return item;
+  });
+}
+
+/**
+ * Merge the schemas of several listings into one collection schema
+ * Fields missing from some listings become optional, and fields whose
+ * type differs between listings accept any of the listing types
+ */
+export function mergeListingSchemas(
+  schemas: Array<z.ZodObject<z.ZodRawShape>>,
+): z.ZodObject<z.ZodRawShape> {
+  if (schemas.length === 1) {
+    return schemas[0]!;
+  }
+
+  const fieldNames = new Set(schemas.flatMap((s) => Object.keys(s.shape)));
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const fieldName of fieldNames) {
+    const variants = new Map<string, z.ZodTypeAny>();
+    let missing = false;
+    for (const schema of schemas) {
+      const fieldSchema = schema.shape[fieldName];
+      if (!fieldSchema) {
+        missing = true;
+        continue;
+      }
+      const signature = schemaSignature(fieldSchema);
+      if (!variants.has(signature)) {
+        variants.set(signature, fieldSchema);
+      }
+    }
+
+    const types = [...variants.values()];
+    let merged =
+      types.length === 1
+        ? types[0]!
+        : z.union(types as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    if (missing && !merged.isOptional()) {
+      merged = merged.optional();
+    }
+    shape[fieldName] = merged;
+  }
+
+  return z.object(shape);
 }
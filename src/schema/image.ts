@@ -0,0 +1,52 @@
+/**
+ * Astro image() integration for Quarto image fields
+ */
+
+import { z } from "zod";
+import type { FieldMappings } from "../types/loader-config.js";
+import { mergeFieldMappings } from "../parsers/metadata-normalizer.js";
+import { getMappedCommonFields } from "./common-fields.js";
+
+/**
+ * The `image` helper Astro passes to collection schema functions
+ */
+export type ImageFunction = () => z.ZodTypeAny;
+
+/**
+ * Options for the image-aware collection schema
+ */
+export interface ImageSchemaOptions {
+  fieldMappings?: FieldMappings;
+  extend?: z.ZodObject<z.ZodRawShape>;
+}
+
+/**
+ * Create a collection schema that uses Astro's image() helper for the
+ * mapped image field. Use together with `assets.astroImage`.
+ *
+ * Other fields are validated by the loader, so unknown keys pass through.
+ *
+ * @example
+ * ```typescript
+ * const blog = defineCollection({
+ *   loader: quartoLoader({ quartoRoot: './quarto', assets: { astroImage: true } }),
+ *   schema: ({ image }) => createImageSchema(image),
+ * });
+ * ```
+ */
+export function createImageSchema(
+  image: ImageFunction,
+  options: ImageSchemaOptions = {},
+): z.ZodObject<z.ZodRawShape> {
+  const fieldMappings = mergeFieldMappings(options.fieldMappings);
+  const imageField = fieldMappings["image"] || "image";
+
+  const schema = z
+    .object({
+      ...getMappedCommonFields(fieldMappings),
+      [imageField]: image().optional(),
+    })
+    .passthrough();
+
+  return options.extend ? schema.extend(options.extend.shape) : schema;
+}
@@ -3,7 +3,20 @@
  */
 
 import type { z } from "zod";
+import type { FieldMappings } from "../types/loader-config.js";
 import { ValidationError } from "../utils/errors.js";
+import type { ValidationIssue } from "../utils/errors.js";
+import { locateFrontmatterKey } from "../parsers/qmd-frontmatter.js";
+
+/**
+ * Options for reporting validation errors against the .qmd source
+ */
+export interface ValidationSourceOptions {
+  /** Field mappings applied to the entry, used to recover Quarto field names */
+  fieldMappings?: FieldMappings;
+  /** Read the .qmd source, used to locate failing keys; only called on failure */
+  readSource?: () => string | undefined;
+}
 
 /**
  * Validation result
@@ -50,6 +63,7 @@ export function validateEntryOrThrow(
   entry: Record<string, unknown>,
   schema: z.ZodObject<z.ZodRawShape>,
   filePath?: string,
+  options: ValidationSourceOptions = {},
 ): Record<string, unknown> {
   const result = validateEntry(entry, schema, filePath);
 
@@ -57,13 +71,65 @@ export function validateEntryOrThrow(
     throw new ValidationError(
       "Entry validation failed",
       filePath,
-      result.errors,
+      describeIssues(result.errors ?? [], options),
     );
   }
 
   return result.data!;
 }
 
+/**
+ * Map validation errors back to Quarto field names and source positions
+ */
+function describeIssues(
+  errors: Array<{ field: string; message: string }>,
+  options: ValidationSourceOptions,
+): ValidationIssue[] {
+  const inverse = new Map<string, string>();
+  for (const [quartoField, mappedField] of Object.entries(
+    options.fieldMappings ?? {},
+  )) {
+    if (mappedField && !inverse.has(mappedField)) {
+      inverse.set(mappedField, quartoField);
+    }
+  }
+
+  let source: string | undefined;
+  let sourceRead = false;
+
+  return errors.map((error) => {
+    const [head = "", ...rest] = error.field.split(".");
+    const quartoField = inverse.get(head) ?? head;
+    const issue: ValidationIssue = {
+      ...error,
+      ...(quartoField !== head && {
+        quartoField: [quartoField, ...rest].join("."),
+      }),
+    };
+
+    if (options.readSource && head) {
+      if (!sourceRead) {
+        sourceRead = true;
+        try {
+          source = options.readSource();
+        } catch {
+          // Positions are best effort
+        }
+      }
+      const path = [quartoField, ...rest].map((segment) =>
+        /^\d+$/.test(segment) ? Number(segment) : segment,
+      );
+      const position = source && locateFrontmatterKey(source, path);
+      if (position) {
+        issue.line = position.line;
+        issue.column = position.column;
+      }
+    }
+
+    return issue;
+  });
+}
+
 /**
  * Validate multiple entries
  */
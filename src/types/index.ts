@@ -8,6 +8,9 @@ export type {
   QmdDocument,
   ParsedMetadata,
   NormalizedEntry,
+  QuartoAuthor,
+  QuartoAffiliation,
+  CreditRole,
   ResolvedListing,
 } from "./quarto.js";
 
@@ -15,6 +18,14 @@ export type {
   QuartoLoaderConfig,
   AssetStrategy,
   AssetConfig,
+  IdConfig,
+  IdCollisionStrategy,
+  ListingOptions,
+  StaleOutputMode,
+  CacheConfig,
+  GitDatesConfig,
+  ErrorPolicy,
+  DiagnosticsConfig,
   SchemaConfig,
   FieldMappings,
   NormalizationOptions,
@@ -29,4 +40,9 @@ export {
   FieldMappingConflictError,
   ValidationError,
   ListingNotFoundError,
+  EntryIdCollisionError,
+  StaleOutputError,
+  AggregatedLoadError,
 } from "../utils/errors.js";
+
+export type { LoadFailure, LoadPhase } from "../utils/error-policy.js";
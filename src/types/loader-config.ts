@@ -13,17 +13,119 @@ export type AssetStrategy = "reference" | "copy" | "symlink";
  * Asset handling configuration
  */
 export interface AssetConfig {
+  /**
+   * How images and figures are made available to Astro
+   * @default 'reference'
+   */
   strategy?: AssetStrategy;
+
+  /**
+   * Directory assets are copied or symlinked into
+   * @default 'public/quarto'
+   */
   publicDir?: string;
+
+  /**
+   * URL the public directory is served from
+   * Derived from `publicDir` when it is inside Astro's `public/` directory
+   */
+  publicUrl?: string;
+
+  /**
+   * Resolve the image field relative to the rendered .md file and pass
+   * entries through Astro's parseData, so a collection schema built with
+   * `createImageSchema(image)` can optimize Quarto images
+   * @default false
+   */
+  astroImage?: boolean;
+
   imageResolver?: (imagePath: string, qmdPath: string) => string;
 }
 
+/**
+ * Entry ID generation configuration
+ */
+export interface IdConfig {
+  /**
+   * How the base ID is derived from the source file
+   * - 'filename': File name without date prefix, e.g. "intro" (default)
+   * - 'path': Keep the directory structure, e.g. "posts/2024/intro"
+   */
+  strategy?: "filename" | "path";
+
+  /**
+   * Permalink pattern used to build the ID, e.g. "/:year/:month/:slug"
+   * Supports :year, :month and :day (from the normalized date),
+   * :slug (document slug) and :path (directory relative to the Quarto root)
+   */
+  pattern?: string;
+
+  /**
+   * Custom slug function applied to the document title
+   */
+  slugify?: (title: string) => string;
+}
+
+/**
+ * Strategy for resolving entries that generate the same ID
+ * - 'error': Throw an EntryIdCollisionError naming every source file
+ * - 'keep-date': Keep the date prefix of dated filenames
+ * - 'suffix': Append a numeric suffix (-2, -3, ...)
+ * - 'path': Use the path relative to the Quarto root
+ */
+export type IdCollisionStrategy = "error" | "keep-date" | "suffix" | "path";
+
+/**
+ * How to handle rendered .md files that are older than their .qmd source
+ * - 'ignore': Don't check
+ * - 'warn': Log a summary of stale files
+ * - 'error': Throw a StaleOutputError
+ * - 'render': Re-render stale (and missing) files with `quarto render <file>`
+ */
+export type StaleOutputMode = "ignore" | "warn" | "error" | "render";
+
+/**
+ * How per-file failures are handled
+ * - 'throw': Abort the load on the first failure
+ * - 'skip': Log the failure and leave the file out (default)
+ * - 'collect': Like 'skip', then throw one error listing every failure
+ */
+export type ErrorPolicy = "throw" | "skip" | "collect";
+
+/**
+ * Git-derived fields to fill from each document's history
+ */
+export interface GitDatesConfig {
+  /**
+   * Fill `date-modified` with the date of the last commit
+   * @default true
+   */
+  modified?: boolean;
+  /**
+   * Fill `date-created` with the date of the first commit
+   * @default false
+   */
+  created?: boolean;
+  /**
+   * Fill `contributors` with the commit authors' names
+   * @default false
+   */
+  contributors?: boolean;
+}
+
 /**
  * Schema configuration for validation
  */
 export interface SchemaConfig {
   extend?: z.ZodObject<z.ZodRawShape>;
   override?: z.ZodObject<z.ZodRawShape>;
+  /**
+   * Infer enums for string fields
+   * - true: For fields with a few distinct values that repeat
+   * - string[]: For the listed fields, e.g. ['status']
+   * @default false
+   */
+  enums?: boolean | string[];
 }
 
 /**
@@ -35,6 +137,8 @@ export const DEFAULT_FIELD_MAPPINGS = {
   author: "author",
   date: "pubDate",
   "date-modified": "updatedDate",
+  "date-formatted": "pubDateFormatted",
+  "date-created": "createdDate",
   image: "heroImage",
   categories: "categories",
   tags: "tags",
@@ -60,6 +164,14 @@ export interface QuartoLoaderConfig {
    */
   outputDir?: string;
 
+  /**
+   * Quarto project profile(s), comma-separated, whose
+   * `_quarto-<profile>.yml` files are merged into `_quarto.yml`
+   * Also passed to `quarto render` when auto-rendering
+   * @default process.env.QUARTO_PROFILE
+   */
+  profile?: string;
+
   /**
    * Auto-render Quarto content before loading
    * @default false
@@ -80,6 +192,15 @@ export interface QuartoLoaderConfig {
    *   args: ['render', '--quiet'],
    *   format: 'gfm'
    * }
+   *
+   * @example
+   * // Only render files whose output is missing or stale,
+   * // with up to 4 concurrent 'quarto render <file>' processes
+   * autoRender: {
+   *   enabled: true,
+   *   incremental: true,
+   *   concurrency: 4
+   * }
    */
   autoRender?:
     | boolean
@@ -88,8 +209,36 @@ export interface QuartoLoaderConfig {
         command?: string;
         args?: string[];
         format?: string;
+        incremental?: boolean;
+        concurrency?: number;
       };
 
+  /**
+   * Detect rendered outputs that are older than their .qmd source
+   * @default 'warn'
+   *
+   * With `compareHashes`, a source whose content matches the hash recorded
+   * when its output was last fresh is not reported (e.g. after a git checkout
+   * that only changed modification times)
+   */
+  staleOutputs?:
+    | StaleOutputMode
+    | { mode: StaleOutputMode; compareHashes?: boolean };
+
+  /**
+   * How files that fail to parse, normalize, read or validate are handled
+   * (default: 'skip')
+   */
+  onError?: ErrorPolicy;
+
+  /**
+   * End-of-load report with per-listing counts and timings
+   * - true: Log a summary table (default)
+   * - false: Disable the report
+   * - object: Also write the report as JSON, e.g. `{ file: "./quarto-loader-report.json" }`
+   */
+  diagnostics?: boolean | DiagnosticsConfig;
+
   /**
    * Which listing(s) to load
    * - string: Single listing ID
@@ -98,12 +247,47 @@ export interface QuartoLoaderConfig {
    */
   listings?: string | string[] | "all";
 
+  /**
+   * Entry ID generation
+   * A `slug` field in frontmatter always takes precedence over the generated slug
+   */
+  id?: IdConfig;
+
+  /**
+   * How to resolve duplicate entry IDs within and across listings
+   * @default 'error'
+   */
+  idCollisions?: IdCollisionStrategy;
+
   /**
    * Field mappings from Quarto field names to Astro field names
    * Defaults to match Astro's blog template convention
    */
   fieldMappings?: FieldMappings;
 
+  /**
+   * IANA time zone for dates without a time, such as `date: 2025-11-24`,
+   * and for `date: today`, `date-format` and permalink date tokens
+   * @default 'UTC'
+   */
+  timezone?: string;
+
+  /**
+   * Fill dates from the local git history of each .qmd file when the
+   * frontmatter leaves them out
+   * - true: Fill `date-modified` from the last commit
+   * - object: Also fill `date-created` and `contributors`
+   * @default false
+   */
+  gitDates?: boolean | GitDatesConfig;
+
+  /**
+   * Reduce structured authors to their names, so `author` is always a
+   * string or an array of strings
+   * @default false
+   */
+  flattenAuthors?: boolean;
+
   /**
    * Schema customization
    */
@@ -128,13 +312,83 @@ export interface QuartoLoaderConfig {
    */
   assets?: AssetConfig;
 
+  /**
+   * Per-listing overrides, keyed by listing ID
+   * Field mappings are merged with the top-level mappings; other options replace them
+   *
+   * @example
+   * perListing: {
+   *   talks: {
+   *     fieldMappings: { date: 'talkDate' },
+   *     schema: { extend: z.object({ venue: z.string() }) },
+   *   },
+   * }
+   */
+  perListing?: Record<string, ListingOptions>;
+
   /**
    * Performance options
+   * `cache` accepts an object to size the in-memory caches or enable the persistent cache
+   */
+  cache?: boolean | CacheConfig;
+
+  /**
+   * Maximum number of file operations in flight at once, shared by parsing,
+   * filter, transform, markdown reads and per-file renders
+   * - true: 16 (default)
+   * - false: 1 (sequential)
+   * - number: that many operations
    */
-  cache?: boolean;
-  parallel?: boolean;
+  parallel?: boolean | number;
 }
 
+/**
+ * Diagnostics report configuration
+ */
+export interface DiagnosticsConfig {
+  /**
+   * Log the summary table at the end of each load (default: true)
+   */
+  print?: boolean;
+
+  /**
+   * Write the report as JSON to this path, relative to the Astro project root
+   */
+  file?: string;
+}
+
+/**
+ * Cache configuration
+ */
+export interface CacheConfig {
+  /**
+   * Enable the in-memory parse cache (default: true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Maximum number of entries in each in-memory cache (default: 500)
+   * The loader logs hits, misses and evictions at debug level after each load
+   */
+  maxSize?: number;
+
+  /**
+   * Keep parsed frontmatter, normalized entries and rendered bodies in
+   * the loader's meta store so later builds can reuse them (default: false)
+   * Records are keyed by a content hash and invalidated when the loader
+   * version or the relevant configuration changes
+   */
+  persistent?: boolean;
+}
+
+/**
+ * Loader options that can be overridden for an individual listing
+ */
+export type ListingOptions = Pick<
+  QuartoLoaderConfig,
+  "fieldMappings" | "schema" | "filter" | "transform" | "id"
+>;
+
 /**
  * Normalization options for metadata processing
  */
@@ -142,6 +396,9 @@ export interface NormalizationOptions {
   basePath: string;
   outputDir: string;
   fieldMappings: FieldMappings;
-  slugify?: (title: string) => string;
+  id?: IdConfig;
+  astroImage?: boolean;
   imageResolver?: (imagePath: string, qmdPath: string) => string;
+  flattenAuthors?: boolean;
+  timezone?: string;
 }
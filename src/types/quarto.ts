@@ -16,6 +16,10 @@ export interface QuartoConfig {
     sidebar?: unknown;
   };
   listing?: QuartoListing | QuartoListing[];
+  profile?: {
+    default?: string | string[];
+    group?: string[] | string[][];
+  };
   [key: string]: unknown;
 }
 
@@ -33,6 +37,7 @@ export interface QuartoListing {
   fields?: string[];
   "field-display-names"?: Record<string, string>;
   "field-required"?: string[];
+  "field-types"?: Record<string, string>;
   date?: string;
   image?: string;
   "image-height"?: string;
@@ -58,7 +63,7 @@ export interface ParsedMetadata {
   // Standard Quarto fields
   title?: string;
   description?: string;
-  author?: string | string[];
+  author?: string | string[] | QuartoAuthor[];
   date?: string | Date;
   "date-modified"?: string | Date;
   image?: string;
@@ -73,6 +78,49 @@ export interface ParsedMetadata {
   [key: string]: unknown;
 }
 
+/**
+ * Affiliation of a Quarto author
+ */
+export interface QuartoAffiliation {
+  id?: string;
+  name: string;
+  department?: string;
+  address?: string;
+  city?: string;
+  region?: string;
+  country?: string;
+  postalCode?: string;
+  url?: string;
+  ror?: string;
+}
+
+/**
+ * Contributor role, using CRediT terms where recognized
+ */
+export interface CreditRole {
+  role: string;
+  degree?: "lead" | "supporting" | "equal";
+}
+
+/**
+ * Structured Quarto author
+ */
+export interface QuartoAuthor {
+  /** Display name, e.g. "Norah Jones" */
+  name: string;
+  given?: string;
+  family?: string;
+  id?: string;
+  email?: string;
+  url?: string;
+  /** ORCID iD without the https://orcid.org/ prefix */
+  orcid?: string;
+  corresponding: boolean;
+  equalContributor: boolean;
+  roles: CreditRole[];
+  affiliations: QuartoAffiliation[];
+}
+
 /**
  * Normalized entry ready for Astro content collection
  */
@@ -0,0 +1,357 @@
+/**
+ * Asset publishing for the 'copy' and 'symlink' strategies
+ */
+
+import {
+  copyFile,
+  mkdir,
+  readdir,
+  readlink,
+  rm,
+  rmdir,
+  stat,
+  symlink,
+} from "fs/promises";
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "path";
+import type { MetaStore } from "astro/loaders";
+import type { AssetStrategy } from "../types/loader-config.js";
+import { QuartoLoaderError } from "./errors.js";
+
+/**
+ * Options for publishing assets into Astro's public directory
+ */
+export interface AssetPublisherOptions {
+  strategy: Exclude<AssetStrategy, "reference">;
+  publicDir: string;
+  publicUrl: string;
+  quartoRoot: string;
+  outputDir: string;
+}
+
+/**
+ * Meta store key of the targets published by the previous load
+ */
+const MANIFEST_KEY = "assets:published";
+
+/**
+ * Check if a reference points to a local file rather than a URL
+ */
+export function isLocalAssetPath(path: string): boolean {
+  return !/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(path);
+}
+
+/**
+ * Decode a URI-encoded path, keeping it unchanged if it isn't valid encoding
+ */
+function safeDecodeURI(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Get the relative path of `path` inside `parent`, or undefined if outside
+ */
+function relativeInside(parent: string, path: string): string | undefined {
+  const rel = relative(parent, path);
+  if (!rel || rel.startsWith("..") || isAbsolute(rel)) {
+    return undefined;
+  }
+  return rel;
+}
+
+/**
+ * Derive the public URL for a public directory inside Astro's `public/`
+ */
+export function derivePublicUrl(publicDir: string, root: string): string {
+  const rel = relativeInside(join(root, "public"), publicDir);
+  if (rel === undefined) {
+    throw new QuartoLoaderError(
+      `Cannot derive a public URL for assets.publicDir '${publicDir}' because it is outside Astro's public directory. ` +
+        `Set assets.publicUrl to the URL the directory is served from.`,
+    );
+  }
+  return "/" + rel.split(sep).join("/");
+}
+
+/**
+ * Copies or symlinks Quarto assets into Astro's public directory
+ *
+ * Assets are placed at their path relative to the output directory
+ * (for rendered figures) or the Quarto root (for source images), so
+ * the public path is stable between builds and mirrors the project.
+ * Files outside both directories are never published.
+ */
+export class AssetPublisher {
+  private published = new Map<string, string>();
+  /** Files and symlinks written to publicDir, relative with "/" separators */
+  private targets = new Set<string>();
+
+  constructor(private readonly options: AssetPublisherOptions) {}
+
+  /**
+   * Publish a file or directory and return its public URL
+   * A leading '/' is read as relative to the project root, as in Quarto.
+   * Returns undefined if the source does not exist or is outside the project.
+   */
+  async publish(sourcePath: string): Promise<string | undefined> {
+    for (const candidate of this.resolveSource(sourcePath)) {
+      const url = await this.publishSource(candidate);
+      if (url) {
+        return url;
+      }
+    }
+    return undefined;
+  }
+
+  private async publishSource(sourcePath: string): Promise<string | undefined> {
+    const existing = this.findPublished(sourcePath);
+    if (existing) {
+      return existing;
+    }
+
+    let sourceStats;
+    try {
+      sourceStats = await stat(sourcePath);
+    } catch {
+      return undefined;
+    }
+
+    const target = this.targetPath(sourcePath);
+    const destination = join(this.options.publicDir, ...target.split("/"));
+    await mkdir(dirname(destination), { recursive: true });
+
+    if (this.options.strategy === "symlink") {
+      await this.linkAsset(sourcePath, destination, sourceStats.isDirectory());
+      this.targets.add(target);
+    } else if (sourceStats.isDirectory()) {
+      await this.copyDirectory(sourcePath, target);
+    } else {
+      await this.copyAsset(sourcePath, destination, sourceStats);
+      this.targets.add(target);
+    }
+
+    const url =
+      this.options.publicUrl.replace(/\/+$/, "") +
+      "/" +
+      target.split("/").map(encodeURIComponent).join("/");
+    this.published.set(sourcePath, url);
+    return url;
+  }
+
+  /**
+   * Publish the `<name>_files` directory Quarto emits next to a rendered .md file
+   */
+  async publishSupportingFiles(mdPath: string): Promise<string | undefined> {
+    const filesDir = join(dirname(mdPath), `${basename(mdPath, ".md")}_files`);
+    return this.publish(filesDir);
+  }
+
+  /**
+   * Rewrite local image references in markdown to public URLs
+   * Handles both `![alt](path)` and `<img src="path">` syntax
+   */
+  async rewriteMarkdownImages(body: string, mdPath: string): Promise<string> {
+    const pattern =
+      /(!\[[^\]]*\]\()([^)\s]+)([^)]*\))|(<img\b[^>]*?\bsrc=["'])([^"']+)(["'])/g;
+    const mdDir = dirname(mdPath);
+
+    const urls = new Map<string, string>();
+    for (const match of body.matchAll(pattern)) {
+      const ref = match[2] ?? match[5];
+      if (!ref || urls.has(ref) || !isLocalAssetPath(ref)) {
+        continue;
+      }
+
+      const path = safeDecodeURI(ref);
+      const url = await this.publish(
+        path.startsWith("/") ? path : join(mdDir, path),
+      );
+      if (url) {
+        urls.set(ref, url);
+      }
+    }
+
+    if (urls.size === 0) {
+      return body;
+    }
+
+    return body.replace(
+      pattern,
+      (match, mdOpen, mdRef, mdClose, imgOpen, imgRef, imgClose) => {
+        if (mdRef !== undefined && urls.has(mdRef)) {
+          return `${mdOpen}${urls.get(mdRef)}${mdClose}`;
+        }
+        if (imgRef !== undefined && urls.has(imgRef)) {
+          return `${imgOpen}${urls.get(imgRef)}${imgClose}`;
+        }
+        return match;
+      },
+    );
+  }
+
+  /**
+   * Get the paths a source may refer to inside the project
+   * Absolute paths outside the Quarto root and output directory are
+   * read as project-relative; anything else outside is refused.
+   */
+  private resolveSource(sourcePath: string): string[] {
+    const { quartoRoot, outputDir } = this.options;
+    const isInside = (path: string) =>
+      relativeInside(quartoRoot, path) !== undefined ||
+      relativeInside(outputDir, path) !== undefined;
+
+    const resolved = resolve(sourcePath);
+    if (isInside(resolved)) {
+      return [resolved];
+    }
+    if (sourcePath.startsWith("/")) {
+      return [join(quartoRoot, sourcePath), join(outputDir, sourcePath)].filter(
+        isInside,
+      );
+    }
+    return [];
+  }
+
+  /**
+   * Find the URL of a path that was already published, directly or
+   * as part of a published directory
+   */
+  private findPublished(sourcePath: string): string | undefined {
+    const direct = this.published.get(sourcePath);
+    if (direct) {
+      return direct;
+    }
+
+    for (const [publishedPath, url] of this.published) {
+      const rel = relativeInside(publishedPath, sourcePath);
+      if (rel !== undefined) {
+        return url + "/" + rel.split(sep).map(encodeURIComponent).join("/");
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Compute the target path (relative to publicDir, using "/" separators)
+   */
+  private targetPath(sourcePath: string): string {
+    // Sources are checked to be inside one of these by resolveSource
+    const rel =
+      relativeInside(this.options.outputDir, sourcePath) ??
+      relativeInside(this.options.quartoRoot, sourcePath)!;
+    return rel.split(sep).join("/");
+  }
+
+  /**
+   * Remove assets published by the previous load but not by this one,
+   * then record this load's assets for the next
+   * Returns the removed targets
+   */
+  async prune(meta: Pick<MetaStore, "get" | "set">): Promise<string[]> {
+    let previous: string[] = [];
+    try {
+      previous = JSON.parse(meta.get(MANIFEST_KEY) ?? "[]") as string[];
+    } catch {
+      // Unreadable manifest, nothing to prune
+    }
+
+    const removed = previous.filter((target) => !this.targets.has(target));
+    for (const target of removed) {
+      const destination = join(this.options.publicDir, ...target.split("/"));
+      await rm(destination, { recursive: true, force: true });
+      await this.removeEmptyParents(dirname(destination));
+    }
+
+    meta.set(MANIFEST_KEY, JSON.stringify([...this.targets].sort()));
+    return removed;
+  }
+
+  /**
+   * Remove empty directories from `dir` up to publicDir
+   */
+  private async removeEmptyParents(dir: string): Promise<void> {
+    while (relativeInside(this.options.publicDir, dir) !== undefined) {
+      try {
+        await rmdir(dir);
+      } catch {
+        return;
+      }
+      dir = dirname(dir);
+    }
+  }
+
+  /**
+   * Copy a directory file by file, skipping files that are up to date
+   */
+  private async copyDirectory(
+    sourceDir: string,
+    target: string,
+  ): Promise<void> {
+    const destinationDir = join(this.options.publicDir, ...target.split("/"));
+    await mkdir(destinationDir, { recursive: true });
+
+    for (const item of await readdir(sourceDir, { withFileTypes: true })) {
+      const sourcePath = join(sourceDir, item.name);
+      const itemTarget = `${target}/${item.name}`;
+      if (item.isDirectory()) {
+        await this.copyDirectory(sourcePath, itemTarget);
+      } else if (item.isFile()) {
+        await this.copyAsset(
+          sourcePath,
+          join(destinationDir, item.name),
+          await stat(sourcePath),
+        );
+        this.targets.add(itemTarget);
+      }
+    }
+  }
+
+  private async copyAsset(
+    sourcePath: string,
+    destination: string,
+    sourceStats: { size: number; mtimeMs: number },
+  ): Promise<void> {
+    try {
+      const destinationStats = await stat(destination);
+      if (
+        destinationStats.size === sourceStats.size &&
+        destinationStats.mtimeMs >= sourceStats.mtimeMs
+      ) {
+        return;
+      }
+    } catch {
+      // Destination doesn't exist yet
+    }
+
+    await copyFile(sourcePath, destination);
+  }
+
+  private async linkAsset(
+    sourcePath: string,
+    destination: string,
+    isDirectory: boolean,
+  ): Promise<void> {
+    try {
+      if ((await readlink(destination)) === sourcePath) {
+        return;
+      }
+    } catch {
+      // Destination doesn't exist or isn't a symlink
+    }
+
+    await rm(destination, { recursive: true, force: true });
+    await symlink(sourcePath, destination, isDirectory ? "dir" : "file");
+  }
+}
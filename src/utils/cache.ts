@@ -3,6 +3,43 @@
  */
 
 import { stat } from "fs/promises";
+import type { CacheConfig } from "../types/loader-config.js";
+
+/**
+ * Default number of entries held by each in-memory cache
+ */
+export const DEFAULT_CACHE_SIZE = 500;
+
+/**
+ * Normalized cache configuration
+ */
+export interface CacheOptions {
+  enabled: boolean;
+  persistent: boolean;
+  maxSize: number;
+}
+
+/**
+ * Normalize cache configuration
+ */
+export function normalizeCacheConfig(
+  cache?: boolean | CacheConfig,
+): CacheOptions {
+  if (cache === undefined || typeof cache === "boolean") {
+    return {
+      enabled: cache ?? true,
+      persistent: false,
+      maxSize: DEFAULT_CACHE_SIZE,
+    };
+  }
+
+  const enabled = cache.enabled ?? true;
+  return {
+    enabled,
+    persistent: enabled && cache.persistent === true,
+    maxSize: cache.maxSize ?? DEFAULT_CACHE_SIZE,
+  };
+}
 
 /**
  * Cache entry with metadata
@@ -13,14 +50,28 @@ interface CacheEntry<T> {
   size: number;
 }
 
+/**
+ * Cache usage counters
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  maxSize: number;
+}
+
 /**
  * Simple LRU cache for parsed files
  */
 export class FileCache<T> {
   private cache: Map<string, CacheEntry<T>>;
   private maxSize: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
 
-  constructor(maxSize: number = 500) {
+  constructor(maxSize: number = DEFAULT_CACHE_SIZE) {
     this.cache = new Map();
     this.maxSize = maxSize;
   }
@@ -31,6 +82,7 @@ export class FileCache<T> {
   async get(path: string): Promise<T | undefined> {
     const entry = this.cache.get(path);
     if (!entry) {
+      this.misses++;
       return undefined;
     }
 
@@ -41,16 +93,19 @@ export class FileCache<T> {
         // Move to end (LRU)
         this.cache.delete(path);
         this.cache.set(path, entry);
+        this.hits++;
         return entry.data;
       }
     } catch {
       // File no longer exists
       this.cache.delete(path);
+      this.misses++;
       return undefined;
     }
 
     // File has been modified
     this.cache.delete(path);
+    this.misses++;
     return undefined;
   }
 
@@ -58,14 +113,19 @@ export class FileCache<T> {
    * Set cache entry
    */
   async set(path: string, data: T): Promise<void> {
+    if (this.maxSize <= 0) {
+      return;
+    }
+
     try {
       const stats = await stat(path);
 
       // Evict oldest entry if cache is full
-      if (this.cache.size >= this.maxSize) {
+      if (!this.cache.has(path) && this.cache.size >= this.maxSize) {
         const firstKey = this.cache.keys().next().value;
         if (firstKey) {
           this.cache.delete(firstKey);
+          this.evictions++;
         }
       }
 
@@ -99,4 +159,36 @@ export class FileCache<T> {
   size(): number {
     return this.cache.size;
   }
+
+  /**
+   * Get hit, miss and eviction counts since the last reset
+   */
+  getStats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.cache.size,
+      maxSize: this.maxSize,
+    };
+  }
+
+  /**
+   * Reset hit, miss and eviction counts
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+}
+
+/**
+ * Format cache usage for logging
+ */
+export function formatCacheStats(name: string, stats: CacheStats): string {
+  return (
+    `${name}: ${stats.hits} hit(s), ${stats.misses} miss(es), ` +
+    `${stats.evictions} eviction(s), ${stats.size}/${stats.maxSize} entries`
+  );
 }
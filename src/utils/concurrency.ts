@@ -0,0 +1,71 @@
+/**
+ * Concurrency limiting utilities
+ */
+
+/**
+ * Default number of in-flight operations when `parallel` is true
+ */
+export const DEFAULT_PARALLELISM = 16;
+
+/**
+ * Run an async task once a slot is free
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter that allows at most `concurrency` tasks in flight
+ */
+export function createLimiter(concurrency: number): Limiter {
+  const limit = Math.max(1, Math.floor(concurrency));
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active < limit) {
+      queue.shift()?.();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        active++;
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+}
+
+/**
+ * Map items through an async function with bounded concurrency
+ * Results keep the order of the input
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const limit = createLimiter(concurrency);
+  return Promise.all(items.map((item, index) => limit(() => fn(item, index))));
+}
+
+/**
+ * Normalize the `parallel` option to a maximum number of in-flight operations
+ * - true: DEFAULT_PARALLELISM
+ * - false: 1 (sequential)
+ * - number: that many operations
+ */
+export function normalizeParallelConfig(parallel?: boolean | number): number {
+  if (parallel === undefined || parallel === true) {
+    return DEFAULT_PARALLELISM;
+  }
+  if (parallel === false) {
+    return 1;
+  }
+  return Math.max(1, Math.floor(parallel));
+}
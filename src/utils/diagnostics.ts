@@ -0,0 +1,153 @@
+/**
+ * End-of-load diagnostics report
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+import type { DiagnosticsConfig } from "../types/loader-config.js";
+import type { LoadFailure } from "./error-policy.js";
+
+/**
+ * Counts for a single listing
+ */
+export interface ListingDiagnostics {
+  listing: string;
+  /** Files matched by the listing's contents patterns */
+  matched: number;
+  /** Files parsed for this listing (shared files are parsed by their first listing) */
+  parsed: number;
+  /** Entries removed by the filter function */
+  filteredOut: number;
+  /** Entries that failed schema validation */
+  failedValidation: number;
+  /** Files without a rendered .md */
+  missingRenders: number;
+  /** Files whose rendered .md is older than the source */
+  staleRenders: number;
+  /** Entries whose ID was changed to resolve a collision */
+  idCollisions: number;
+  /** Entries stored in the collection */
+  entries: number;
+  durationMs: number;
+}
+
+/**
+ * Report for a whole load
+ */
+export interface DiagnosticsReport {
+  generatedAt: string;
+  durationMs: number;
+  totalEntries: number;
+  listings: ListingDiagnostics[];
+  failures: Array<{ filePath: string; phase: string; message: string }>;
+}
+
+/**
+ * Normalized diagnostics configuration
+ */
+export interface DiagnosticsOptions {
+  print: boolean;
+  file?: string;
+}
+
+/**
+ * Normalize diagnostics configuration
+ */
+export function normalizeDiagnosticsConfig(
+  diagnostics?: boolean | DiagnosticsConfig,
+): DiagnosticsOptions {
+  if (diagnostics === undefined || typeof diagnostics === "boolean") {
+    return { print: diagnostics ?? true };
+  }
+
+  return { print: diagnostics.print ?? true, file: diagnostics.file };
+}
+
+/**
+ * Create empty diagnostics for a listing
+ */
+export function createListingDiagnostics(listing: string): ListingDiagnostics {
+  return {
+    listing,
+    matched: 0,
+    parsed: 0,
+    filteredOut: 0,
+    failedValidation: 0,
+    missingRenders: 0,
+    staleRenders: 0,
+    idCollisions: 0,
+    entries: 0,
+    durationMs: 0,
+  };
+}
+
+/**
+ * Assemble the report for a load
+ */
+export function createDiagnosticsReport(
+  listings: ListingDiagnostics[],
+  failures: LoadFailure[],
+  durationMs: number,
+): DiagnosticsReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    durationMs,
+    totalEntries: listings.reduce((sum, l) => sum + l.entries, 0),
+    listings,
+    failures: failures.map((f) => ({
+      filePath: f.filePath,
+      phase: f.phase,
+      message: f.error.message,
+    })),
+  };
+}
+
+const COLUMNS: Array<[string, (l: ListingDiagnostics) => string]> = [
+  ["Listing", (l) => l.listing],
+  ["Matched", (l) => String(l.matched)],
+  ["Parsed", (l) => String(l.parsed)],
+  ["Filtered", (l) => String(l.filteredOut)],
+  ["Invalid", (l) => String(l.failedValidation)],
+  ["Missing", (l) => String(l.missingRenders)],
+  ["Stale", (l) => String(l.staleRenders)],
+  ["Collisions", (l) => String(l.idCollisions)],
+  ["Entries", (l) => String(l.entries)],
+  ["Time", (l) => `${l.durationMs}ms`],
+];
+
+/**
+ * Format the report as a plain-text table with one row per listing
+ */
+export function formatDiagnosticsTable(report: DiagnosticsReport): string {
+  const rows = [
+    COLUMNS.map(([header]) => header),
+    ...report.listings.map((l) => COLUMNS.map(([, value]) => value(l))),
+  ];
+  const widths = COLUMNS.map((_, i) =>
+    Math.max(...rows.map((row) => row[i]!.length)),
+  );
+
+  // The listing name is left-aligned, counts are right-aligned
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) =>
+          i === 0 ? cell.padEnd(widths[i]!) : cell.padStart(widths[i]!),
+        )
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+/**
+ * Write the report as JSON, creating parent directories as needed
+ */
+export async function writeDiagnosticsReport(
+  report: DiagnosticsReport,
+  file: string,
+): Promise<void> {
+  const path = resolve(file);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(report, null, 2) + "\n");
+}
@@ -0,0 +1,70 @@
+/**
+ * Per-file error handling for the loader's onError policy
+ */
+
+import { relative } from "path";
+import type { ErrorPolicy } from "../types/loader-config.js";
+import { AggregatedLoadError } from "./errors.js";
+import type { Logger } from "./logger.js";
+
+/**
+ * Phase of the load in which a file failed
+ */
+export type LoadPhase = "parse" | "normalize" | "body" | "validate";
+
+/**
+ * A file that failed to load
+ */
+export interface LoadFailure {
+  /** Path relative to the Quarto root */
+  filePath: string;
+  phase: LoadPhase;
+  error: Error;
+}
+
+/**
+ * Applies the onError policy to per-file failures
+ * - 'throw': Rethrow the error, aborting the load
+ * - 'skip': Log the error and leave the file out
+ * - 'collect': Like 'skip', then throw an AggregatedLoadError once the load finishes
+ */
+export class ErrorCollector {
+  private failures: LoadFailure[] = [];
+
+  constructor(
+    private readonly policy: ErrorPolicy,
+    private readonly logger: Logger,
+    private readonly quartoRoot: string,
+  ) {}
+
+  /**
+   * Handle a failure for a file
+   * Throws if the policy is 'throw'
+   */
+  handle(filePath: string, phase: LoadPhase, error: unknown): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (this.policy === "throw") {
+      throw err;
+    }
+
+    const name = relative(this.quartoRoot, filePath);
+    this.logger.error(`Skipping ${name} (${phase} failed): ${err.message}`);
+    this.failures.push({ filePath: name, phase, error: err });
+  }
+
+  /**
+   * Get the files skipped so far
+   */
+  getFailures(): LoadFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * Throw an AggregatedLoadError if the policy is 'collect' and any file failed
+   */
+  throwIfFailed(): void {
+    if (this.policy === "collect" && this.failures.length > 0) {
+      throw new AggregatedLoadError(this.failures);
+    }
+  }
+}
@@ -2,6 +2,8 @@
  * Custom error classes for Quarto Loader
  */
 
+import type { LoadFailure } from "./error-policy.js";
+
 export class QuartoLoaderError extends Error {
   constructor(message: string) {
     super(message);
@@ -47,25 +49,51 @@ export class FieldMappingConflictError extends QuartoLoaderError {
   }
 }
 
+/**
+ * A single schema validation failure
+ * `field` is the path in the entry data; `quartoField` is the name used
+ * in the .qmd frontmatter when a field mapping renamed it
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+  quartoField?: string;
+  line?: number;
+  column?: number;
+}
+
 export class ValidationError extends QuartoLoaderError {
   constructor(
     message: string,
     public readonly filePath?: string,
-    public readonly errors?: Array<{ field: string; message: string }>,
+    public readonly errors?: ValidationIssue[],
   ) {
     let fullMessage = message;
     if (filePath) {
       fullMessage = `Validation error in ${filePath}: ${message}`;
     }
     if (errors && errors.length > 0) {
-      fullMessage +=
-        "\n" + errors.map((e) => `  - ${e.field}: ${e.message}`).join("\n");
+      fullMessage += "\n" + errors.map(formatValidationIssue).join("\n");
     }
     super(fullMessage);
     this.name = "ValidationError";
   }
 }
 
+/**
+ * Format a validation issue as `  - date (as pubDate) at line 3, column 1: message`
+ */
+function formatValidationIssue(issue: ValidationIssue): string {
+  let name = issue.field;
+  if (issue.quartoField && issue.quartoField !== issue.field) {
+    name = `${issue.quartoField} (as ${issue.field})`;
+  }
+  const location = issue.line
+    ? ` at line ${issue.line}${issue.column ? `, column ${issue.column}` : ""}`
+    : "";
+  return `  - ${name}${location}: ${issue.message}`;
+}
+
 export class ListingNotFoundError extends QuartoLoaderError {
   constructor(
     public readonly listingId: string,
@@ -77,3 +105,43 @@ export class ListingNotFoundError extends QuartoLoaderError {
     this.name = "ListingNotFoundError";
   }
 }
+
+export class EntryIdCollisionError extends QuartoLoaderError {
+  constructor(
+    public readonly id: string,
+    public readonly filePaths: string[],
+  ) {
+    super(
+      `Duplicate entry ID '${id}' generated by:\n` +
+        filePaths.map((p) => `  - ${p}`).join("\n") +
+        `\nRename one of the files or set 'idCollisions' to 'keep-date', 'suffix' or 'path'.`,
+    );
+    this.name = "EntryIdCollisionError";
+  }
+}
+
+export class StaleOutputError extends QuartoLoaderError {
+  constructor(public readonly filePaths: string[]) {
+    super(
+      `Rendered output is older than its source for ${filePaths.length} file(s):\n` +
+        filePaths.map((p) => `  - ${p}`).join("\n") +
+        `\nRun 'quarto render' to update them, or set 'staleOutputs' to 'render'.`,
+    );
+    this.name = "StaleOutputError";
+  }
+}
+
+export class AggregatedLoadError extends QuartoLoaderError {
+  constructor(public readonly failures: LoadFailure[]) {
+    super(
+      `Failed to load ${failures.length} file(s):\n` +
+        failures
+          .map(
+            (f) =>
+              `  - ${f.filePath} (${f.phase}): ${f.error.message.replace(/\n/g, "\n    ")}`,
+          )
+          .join("\n"),
+    );
+    this.name = "AggregatedLoadError";
+  }
+}
@@ -2,8 +2,14 @@
  * File watching utilities for hot module replacement
  */
 
-import { watch as fsWatch, type FSWatcher } from "fs";
 import { EventEmitter } from "events";
+import { isAbsolute, join, relative, resolve } from "path";
+import type { LoaderContext } from "astro/loaders";
+
+/**
+ * Filesystem watcher Astro passes to loaders in development
+ */
+export type AstroWatcher = NonNullable<LoaderContext["watcher"]>;
 
 /**
  * File change event
@@ -13,66 +19,92 @@ export interface FileChangeEvent {
   type: "add" | "change" | "unlink";
 }
 
+/**
+ * Options for watching a Quarto project
+ */
+export interface FileWatcherOptions {
+  /** Quarto project root to watch */
+  root: string;
+  /** Additional directories to ignore, such as the output directory */
+  ignore?: string[];
+}
+
+/**
+ * Directories Quarto manages itself, ignored in every project
+ */
+const QUARTO_INTERNAL_DIRS = [".quarto", "_freeze"];
+
+const EVENT_TYPES: FileChangeEvent["type"][] = ["add", "change", "unlink"];
+
 /**
  * File watcher for Quarto content
+ *
+ * Listens to Astro's watcher and re-emits events under the Quarto root
+ * as `change` events with absolute paths.
  */
 export class QuartoFileWatcher extends EventEmitter {
-  private watchers: FSWatcher[] = [];
-  private watching: boolean = false;
+  private detach: (() => void) | undefined;
 
   /**
-   * Start watching paths
+   * Start watching a Quarto project through Astro's watcher
+   * Any previous attachment is removed first
    */
-  watch(paths: string[]): void {
-    if (this.watching) {
-      return;
-    }
-
-    this.watching = true;
-
-    for (const path of paths) {
-      try {
-        const watcher = fsWatch(
-          path,
-          { recursive: true },
-          (eventType, filename) => {
-            if (!filename) return;
-
-            const changeType = eventType === "rename" ? "add" : "change";
-
-            this.emit("change", {
-              path: filename,
-              type: changeType,
-            } as FileChangeEvent);
-          },
-        );
-
-        this.watchers.push(watcher);
-      } catch {
-        // Path might not exist yet, ignore
+  watch(watcher: AstroWatcher, options: FileWatcherOptions): void {
+    this.stop();
+
+    const root = resolve(options.root);
+    const ignored = [
+      ...QUARTO_INTERNAL_DIRS.map((dir) => join(root, dir)),
+      ...(options.ignore ?? []).map((dir) => resolve(root, dir)),
+    ];
+
+    const isRelevant = (path: string) =>
+      isInside(root, path) && !ignored.some((dir) => isInside(dir, path));
+
+    const listeners = EVENT_TYPES.map((type) => {
+      const listener = (path: string) => {
+        const absolutePath = resolve(path);
+        if (isRelevant(absolutePath)) {
+          this.emit("change", { path: absolutePath, type } as FileChangeEvent);
+        }
+      };
+      watcher.on(type, listener);
+      return { type, listener };
+    });
+
+    watcher.add(root);
+
+    this.detach = () => {
+      for (const { type, listener } of listeners) {
+        watcher.off(type, listener);
       }
-    }
+    };
   }
 
   /**
-   * Stop watching all paths
+   * Stop watching and remove listeners from Astro's watcher
    */
   stop(): void {
-    for (const watcher of this.watchers) {
-      watcher.close();
-    }
-    this.watchers = [];
-    this.watching = false;
+    this.detach?.();
+    this.detach = undefined;
   }
 
   /**
    * Check if watching
    */
   isWatching(): boolean {
-    return this.watching;
+    return this.detach !== undefined;
   }
 }
 
+/**
+ * Check if a path is a directory or inside it
+ */
+function isInside(dir: string, path: string): boolean {
+  const rel = relative(dir, path);
+  return !rel.startsWith("..") && !isAbsolute(rel);
+}
+
 /**
  * Create a file watcher for Quarto content
  */
@@ -0,0 +1,182 @@
+/**
+ * Git-derived dates and contributors for source files
+ */
+
+import { spawn } from "child_process";
+import { resolve } from "path";
+import type { GitDatesConfig } from "../types/loader-config.js";
+
+/**
+ * History of a single file
+ */
+export interface GitFileHistory {
+  /** Date of the first commit that touched the file */
+  created: Date;
+  /** Date of the last commit that touched the file */
+  modified: Date;
+  /** Author names in order of their first commit */
+  contributors: string[];
+}
+
+/**
+ * Normalized git dates configuration
+ */
+export interface GitDatesOptions {
+  enabled: boolean;
+  modified: boolean;
+  created: boolean;
+  contributors: boolean;
+}
+
+/**
+ * Normalize git dates configuration
+ * `true` only fills the modification date
+ */
+export function normalizeGitDatesConfig(
+  gitDates?: boolean | GitDatesConfig,
+): GitDatesOptions {
+  if (gitDates === undefined || typeof gitDates === "boolean") {
+    return {
+      enabled: gitDates ?? false,
+      modified: true,
+      created: false,
+      contributors: false,
+    };
+  }
+
+  return {
+    enabled: true,
+    modified: gitDates.modified ?? true,
+    created: gitDates.created ?? false,
+    contributors: gitDates.contributors ?? false,
+  };
+}
+
+const RECORD_SEPARATOR = "\x1e";
+const FIELD_SEPARATOR = "\x1f";
+
+/**
+ * Run git in a directory and collect its output
+ */
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const proc = spawn("git", ["-c", "core.quotepath=off", ...args], {
+      cwd,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    proc.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    proc.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+    proc.on("error", reject);
+    proc.on("close", (code) => {
+      if (code === 0) {
+        resolvePromise(Buffer.concat(stdout).toString("utf-8"));
+      } else {
+        const message = Buffer.concat(stderr).toString("utf-8").trim();
+        reject(new Error(message || `git ${args[0]} exited with code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Check if a directory is inside a shallow clone, where history is incomplete
+ */
+export async function isShallowRepository(root: string): Promise<boolean> {
+  const output = await runGit(root, ["rev-parse", "--is-shallow-repository"]);
+  return output.trim() === "true";
+}
+
+/**
+ * Parse `git log` output into per-file histories
+ * Commits are listed newest first, each a header line followed by file names
+ */
+export function parseGitLog(
+  output: string,
+  root: string,
+): Map<string, GitFileHistory> {
+  const histories = new Map<string, GitFileHistory>();
+
+  for (const record of output.split(RECORD_SEPARATOR)) {
+    const [header, ...files] = record.split("\n");
+    if (!header) continue;
+
+    const [isoDate, author] = header.split(FIELD_SEPARATOR);
+    const date = new Date(isoDate!);
+    if (isNaN(date.getTime())) continue;
+
+    for (const file of files) {
+      if (!file.trim()) continue;
+
+      const filePath = resolve(root, file);
+      const history = histories.get(filePath);
+      if (!history) {
+        histories.set(filePath, {
+          created: date,
+          modified: date,
+          contributors: author ? [author] : [],
+        });
+        continue;
+      }
+
+      // Older commits move the creation date back
+      history.created = date;
+      if (author) {
+        history.contributors = [
+          author,
+          ...history.contributors.filter((name) => name !== author),
+        ];
+      }
+    }
+  }
+
+  return histories;
+}
+
+/**
+ * Read the history of every .qmd file under a directory with one `git log`
+ * Keys are absolute file paths
+ */
+export async function readGitHistory(
+  root: string,
+): Promise<Map<string, GitFileHistory>> {
+  const output = await runGit(root, [
+    "log",
+    `--format=${RECORD_SEPARATOR}%aI${FIELD_SEPARATOR}%an`,
+    "--name-only",
+    "--relative",
+    "--",
+    "*.qmd",
+  ]);
+  return parseGitLog(output, root);
+}
+
+/**
+ * Fill git-derived fields the frontmatter leaves out
+ * - 'date-modified': Date of the last commit
+ * - 'date-created': Date of the first commit
+ * - 'contributors': Author names
+ */
+export function applyGitHistory<T extends Record<string, unknown>>(
+  metadata: T,
+  history: GitFileHistory | undefined,
+  options: GitDatesOptions,
+): T {
+  if (!history) {
+    return metadata;
+  }
+
+  const result: Record<string, unknown> = { ...metadata };
+  if (options.modified && result["date-modified"] === undefined) {
+    result["date-modified"] = history.modified;
+  }
+  if (options.created && result["date-created"] === undefined) {
+    result["date-created"] = history.created;
+  }
+  if (options.contributors && result.contributors === undefined) {
+    result.contributors = history.contributors;
+  }
+  return result as T;
+}
@@ -0,0 +1,219 @@
+/**
+ * Persistent parse cache stored in the loader's meta store
+ */
+
+import { createHash } from "crypto";
+import type { MetaStore } from "astro/loaders";
+import type { QuartoLoaderConfig } from "../types/loader-config.js";
+import { version } from "../../package.json";
+
+/**
+ * Version of the loader, part of every fingerprint so caches written by
+ * another release are ignored
+ */
+export const LOADER_VERSION: string = version;
+
+/**
+ * Meta store key of the files the previous load cached results for
+ */
+const MANIFEST_KEY = "cache:files";
+
+const CACHE_KINDS: CacheKind[] = ["frontmatter", "entry", "body"];
+
+/**
+ * Kinds of results held in the persistent cache
+ * - 'frontmatter': Extracted .qmd metadata
+ * - 'entry': Normalized entries before ID collision resolution
+ * - 'body': Rendered markdown bodies
+ */
+export type CacheKind = "frontmatter" | "entry" | "body";
+
+/**
+ * Hash a string with SHA-256
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Serialize a value to JSON, keeping Date values intact
+ */
+export function serializeCacheValue(value: unknown): string {
+  return JSON.stringify(value, function (key, item) {
+    const raw = (this as Record<string, unknown>)[key];
+    if (raw instanceof Date) {
+      return { $date: raw.toISOString() };
+    }
+    return item;
+  });
+}
+
+/**
+ * Parse a value serialized with `serializeCacheValue`, restoring Date values
+ */
+export function deserializeCacheValue<T>(json: string): T {
+  return JSON.parse(json, (_key, item) => {
+    if (
+      item &&
+      typeof item === "object" &&
+      Object.keys(item).length === 1 &&
+      typeof item.$date === "string"
+    ) {
+      return new Date(item.$date);
+    }
+    return item;
+  }) as T;
+}
+
+/**
+ * Options that don't affect parse results and are left out of the fingerprint
+ */
+const RUNTIME_OPTIONS = ["cache", "parallel", "autoRender", "staleOutputs"];
+
+/**
+ * Create a fingerprint of the configuration that affects cached results
+ * Functions are included by source and Zod schemas by structure, so
+ * editing a mapping, transform or schema invalidates the cache
+ */
+export function createConfigFingerprint(config: QuartoLoaderConfig): string {
+  const relevant = Object.fromEntries(
+    Object.entries(config).filter(([key]) => !RUNTIME_OPTIONS.includes(key)),
+  );
+
+  const serialized = JSON.stringify(relevant, (_key, item) => {
+    if (typeof item === "function") {
+      return `fn:${item.toString()}`;
+    }
+    if (item && typeof item === "object" && "_def" in item) {
+      return describeSchema(item);
+    }
+    return item;
+  });
+
+  return hashContent(`${LOADER_VERSION}:${serialized}`);
+}
+
+/**
+ * Describe the structure of a Zod schema for fingerprinting
+ * Default values are left out, as evaluating them (e.g. `new Date()`)
+ * would change the fingerprint on every build
+ */
+function describeSchema(schema: {
+  _def: Record<string, unknown>;
+  shape?: unknown;
+}): Record<string, unknown> {
+  const def = schema._def;
+  return {
+    $zod: def.typeName,
+    shape: schema.shape,
+    innerType: def.innerType,
+    type: def.type,
+    schema: def.schema,
+    options: def.options,
+    values: def.values,
+    checks: def.checks,
+  };
+}
+
+/**
+ * Cache record stored in the meta store
+ */
+interface CacheRecord {
+  fingerprint: string;
+  hash: string;
+  value: unknown;
+}
+
+/**
+ * Cache of parse results that survives between builds
+ *
+ * Records are keyed by file and kind, and are only returned when both
+ * the content hash and the config fingerprint match.
+ */
+export class PersistentCache {
+  constructor(
+    private readonly meta: MetaStore,
+    private readonly fingerprint: string,
+  ) {}
+
+  /**
+   * Get a cached value if it was stored for the same content
+   */
+  get<T>(kind: CacheKind, key: string, hash: string): T | undefined {
+    const stored = this.meta.get(this.metaKey(kind, key));
+    if (!stored) {
+      return undefined;
+    }
+
+    try {
+      const record = deserializeCacheValue<CacheRecord>(stored);
+      if (record.fingerprint === this.fingerprint && record.hash === hash) {
+        return record.value as T;
+      }
+    } catch {
+      // Corrupt record, treat as a miss
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Store a value for the given content hash
+   */
+  set(kind: CacheKind, key: string, hash: string, value: unknown): void {
+    const record: CacheRecord = {
+      fingerprint: this.fingerprint,
+      hash,
+      value,
+    };
+    this.meta.set(this.metaKey(kind, key), serializeCacheValue(record));
+  }
+
+  /**
+   * Get a cached value, computing and storing it on a miss
+   */
+  getOrCompute<T>(
+    kind: CacheKind,
+    key: string,
+    hash: string,
+    compute: () => T,
+  ): T {
+    const cached = this.get<T>(kind, key, hash);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const value = compute();
+    this.set(kind, key, hash, value);
+    return value;
+  }
+
+  /**
+   * Delete the records of files the previous load cached but that are no
+   * longer loaded, then remember the current files for the next load
+   * Returns the removed file keys
+   */
+  prune(keys: string[]): string[] {
+    let previous: string[] = [];
+    try {
+      previous = JSON.parse(this.meta.get(MANIFEST_KEY) ?? "[]") as string[];
+    } catch {
+      // Unreadable manifest, nothing to prune
+    }
+
+    const current = new Set(keys);
+    const removed = previous.filter((key) => !current.has(key));
+    for (const key of removed) {
+      for (const kind of CACHE_KINDS) {
+        this.meta.delete(this.metaKey(kind, key));
+      }
+    }
+
+    this.meta.set(MANIFEST_KEY, JSON.stringify([...current].sort()));
+    return removed;
+  }
+
+  private metaKey(kind: CacheKind, key: string): string {
+    return `cache:${kind}:${key}`;
+  }
+}
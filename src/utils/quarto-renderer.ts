@@ -3,6 +3,9 @@
  */
 
 import { spawn } from "child_process";
+import { relative } from "path";
+import { mapWithConcurrency } from "./concurrency.js";
+import type { Limiter } from "./concurrency.js";
 
 /**
  * Configuration for Quarto auto-rendering
@@ -12,6 +15,25 @@ export interface QuartoRenderOptions {
   command?: string;
   args?: string[];
   format?: string;
+  /** Quarto project profile(s) to render with, comma-separated */
+  profile?: string;
+  incremental?: boolean;
+  concurrency?: number;
+}
+
+/**
+ * Default number of concurrent `quarto render <file>` processes
+ */
+export const DEFAULT_RENDER_CONCURRENCY = 2;
+
+/**
+ * Outcome of rendering a single file
+ */
+export interface FileRenderResult {
+  filePath: string;
+  success: boolean;
+  error?: Error;
+  duration: number;
 }
 
 /**
@@ -31,6 +53,22 @@ export async function checkQuartoInstalled(
   });
 }
 
+/**
+ * Throw a descriptive error if Quarto is not installed
+ */
+export async function ensureQuartoInstalled(
+  command: string = "quarto",
+): Promise<void> {
+  const isInstalled = await checkQuartoInstalled(command);
+  if (!isInstalled) {
+    throw new Error(
+      `Quarto command '${command}' not found.\n` +
+        `Please install Quarto from https://quarto.org/docs/get-started/\n` +
+        `Or set autoRender to false and run 'quarto render' manually.`,
+    );
+  }
+}
+
 /**
  * Render Quarto content using the quarto command
  *
@@ -48,27 +86,119 @@ export async function renderQuarto(
   const command = options.command || "quarto";
 
   // Check if Quarto is installed
-  const isInstalled = await checkQuartoInstalled(command);
-  if (!isInstalled) {
-    throw new Error(
-      `Quarto command '${command}' not found.\n` +
-        `Please install Quarto from https://quarto.org/docs/get-started/\n` +
-        `Or set autoRender to false and run 'quarto render' manually.`,
-    );
-  }
+  await ensureQuartoInstalled(command);
 
-  // Build command arguments
-  const args = options.args || ["render"];
+  // Build command arguments (copy so the caller's options aren't mutated)
+  const args = [...(options.args || ["render"])];
 
   // Add format flag if specified
   if (options.format) {
     args.push("--to", options.format);
   }
+  if (options.profile) {
+    args.push("--profile", options.profile);
+  }
 
   // Execute quarto render
+  return runQuarto(
+    command,
+    args,
+    quartoRoot,
+    `Try running 'quarto render' manually in the ${quartoRoot} directory to see the full error.`,
+  );
+}
+
+/**
+ * Render a single Quarto document with `quarto render <file>`
+ * Assumes Quarto is installed; see ensureQuartoInstalled
+ *
+ * @param quartoRoot - Path to Quarto project directory
+ * @param filePath - Path to the .qmd file to render
+ * @param options - Rendering options
+ */
+export async function renderQuartoFile(
+  quartoRoot: string,
+  filePath: string,
+  options: QuartoRenderOptions,
+): Promise<void> {
+  const command = options.command || "quarto";
+  const relativePath = relative(quartoRoot, filePath);
+
+  // Insert the file after the subcommand: quarto render <file> [...args]
+  const [subcommand = "render", ...rest] = options.args || ["render"];
+  const args = [subcommand, relativePath, ...rest];
+
+  if (options.format) {
+    args.push("--to", options.format);
+  }
+  if (options.profile) {
+    args.push("--profile", options.profile);
+  }
+
+  return runQuarto(
+    command,
+    args,
+    quartoRoot,
+    `Try running 'quarto render ${relativePath}' manually in the ${quartoRoot} directory to see the full error.`,
+  );
+}
+
+/**
+ * Render several Quarto documents with a bounded pool of
+ * `quarto render <file>` processes
+ * Failures are reported per file instead of rejecting
+ *
+ * @param quartoRoot - Path to Quarto project directory
+ * @param files - Paths to the .qmd files to render
+ * @param options - Rendering options
+ * @param limit - Optional limiter shared with other work, applied in
+ *   addition to `options.concurrency`
+ */
+export async function renderQuartoFiles(
+  quartoRoot: string,
+  files: string[],
+  options: QuartoRenderOptions,
+  limit: Limiter = (task) => task(),
+): Promise<FileRenderResult[]> {
+  if (files.length === 0) {
+    return [];
+  }
+
+  await ensureQuartoInstalled(options.command);
+
+  return mapWithConcurrency(
+    files,
+    options.concurrency ?? DEFAULT_RENDER_CONCURRENCY,
+    (filePath) =>
+      limit(async (): Promise<FileRenderResult> => {
+        const start = Date.now();
+        try {
+          await renderQuartoFile(quartoRoot, filePath, options);
+          return { filePath, success: true, duration: Date.now() - start };
+        } catch (error) {
+          return {
+            filePath,
+            success: false,
+            error: error as Error,
+            duration: Date.now() - start,
+          };
+        }
+      }),
+  );
+}
+
+/**
+ * Run a Quarto command and reject if it exits with a non-zero code
+ */
+function runQuarto(
+  command: string,
+  args: string[],
+  cwd: string,
+  hint: string,
+): Promise<void> {
   return new Promise((resolve, reject) => {
     const proc = spawn(command, args, {
-      cwd: quartoRoot,
+      cwd,
       stdio: "inherit",
     });
 
@@ -77,10 +207,7 @@ export async function renderQuarto(
         resolve();
       } else {
         reject(
-          new Error(
-            `Quarto render failed with exit code ${code}.\n` +
-              `Try running 'quarto render' manually in the ${quartoRoot} directory to see the full error.`,
-          ),
+          new Error(`Quarto render failed with exit code ${code}.\n` + hint),
         );
       }
     });
@@ -112,6 +239,8 @@ export function normalizeAutoRenderConfig(
       command: "quarto",
       args: ["render"],
       format: "gfm",
+      incremental: false,
+      concurrency: DEFAULT_RENDER_CONCURRENCY,
     };
   }
 
@@ -121,5 +250,7 @@ export function normalizeAutoRenderConfig(
     command: autoRender.command || "quarto",
     args: autoRender.args || ["render"],
     format: autoRender.format || "gfm",
+    incremental: autoRender.incremental ?? false,
+    concurrency: autoRender.concurrency ?? DEFAULT_RENDER_CONCURRENCY,
   };
 }
@@ -0,0 +1,95 @@
+/**
+ * Debounced, serialized re-render and reload for development mode
+ */
+
+import { createLimiter } from "./concurrency.js";
+import type { Limiter } from "./concurrency.js";
+
+/**
+ * Options for the reload queue
+ */
+export interface ReloadQueueOptions {
+  /** Quiet period in milliseconds before queued changes are processed */
+  delay: number;
+  /** Re-render a changed source file */
+  render: (filePath: string) => Promise<void>;
+  /** Reload content after a batch of changes has been rendered */
+  reload: (filePaths: string[]) => Promise<void>;
+  /** Called when a render or reload fails */
+  onError: (error: Error, filePath?: string) => void;
+}
+
+/**
+ * Collects file changes and processes them in batches
+ *
+ * Changes are debounced so rapid saves produce a single batch, and
+ * batches run one at a time so Quarto processes never overlap.
+ * Changes arriving while a batch runs are picked up by the next one.
+ */
+export class ReloadQueue {
+  private pending = new Map<string, boolean>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private readonly limit: Limiter = createLimiter(1);
+
+  constructor(private readonly options: ReloadQueueOptions) {}
+
+  /**
+   * Queue a changed file, optionally re-rendering it before the reload
+   */
+  schedule(filePath: string, render: boolean): void {
+    this.pending.set(filePath, render || this.pending.get(filePath) === true);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.flush();
+    }, this.options.delay);
+  }
+
+  /**
+   * Process queued changes now
+   * Resolves once this batch has been rendered and reloaded
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const batch = [...this.pending];
+    this.pending.clear();
+    if (batch.length === 0) {
+      return Promise.resolve();
+    }
+
+    return this.limit(async () => {
+      for (const [filePath, render] of batch) {
+        if (!render) continue;
+        try {
+          await this.options.render(filePath);
+        } catch (error) {
+          this.options.onError(error as Error, filePath);
+        }
+      }
+
+      try {
+        await this.options.reload(batch.map(([filePath]) => filePath));
+      } catch (error) {
+        this.options.onError(error as Error);
+      }
+    });
+  }
+
+  /**
+   * Drop queued changes and cancel the pending timer
+   */
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pending.clear();
+  }
+}
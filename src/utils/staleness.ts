@@ -0,0 +1,114 @@
+/**
+ * Detection of rendered outputs that are older than their .qmd sources
+ */
+
+import { readFile } from "fs/promises";
+import { createHash } from "crypto";
+import { relative } from "path";
+import type { MetaStore } from "astro/loaders";
+import type { StaleOutputMode } from "../types/loader-config.js";
+import { checkRenderedFileStatus } from "../parsers/markdown-content.js";
+import type { Limiter } from "./concurrency.js";
+
+/**
+ * Normalized stale output configuration
+ */
+export interface StaleOutputOptions {
+  mode: StaleOutputMode;
+  compareHashes: boolean;
+}
+
+/**
+ * Result of a staleness check
+ */
+export interface StalenessReport {
+  stale: string[];
+  missing: string[];
+}
+
+/**
+ * Normalize staleOutputs configuration
+ */
+export function normalizeStaleOutputsConfig(
+  staleOutputs?:
+    | StaleOutputMode
+    | { mode: StaleOutputMode; compareHashes?: boolean },
+): StaleOutputOptions {
+  if (staleOutputs === undefined) {
+    return { mode: "warn", compareHashes: false };
+  }
+
+  if (typeof staleOutputs === "string") {
+    return { mode: staleOutputs, compareHashes: false };
+  }
+
+  return {
+    mode: staleOutputs.mode,
+    compareHashes: staleOutputs.compareHashes ?? false,
+  };
+}
+
+/**
+ * Hash a file's contents
+ */
+async function hashFile(path: string): Promise<string> {
+  const content = await readFile(path);
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Find .qmd files whose rendered output is missing or older than the source
+ *
+ * With `meta`, the source hash is recorded whenever the output is fresh.
+ * A source that is newer than its output but whose content still matches
+ * the recorded hash (e.g. after a checkout that only touched mtimes) is
+ * then treated as fresh.
+ *
+ * With `limit`, file checks run through the given concurrency limiter.
+ */
+export async function detectStaleOutputs(
+  files: string[],
+  quartoRoot: string,
+  outputDir: string,
+  meta?: Pick<MetaStore, "get" | "set">,
+  limit: Limiter = (task) => task(),
+): Promise<StalenessReport> {
+  const report: StalenessReport = { stale: [], missing: [] };
+
+  await Promise.all(
+    files.map((file) =>
+      limit(async () => {
+        const status = await checkRenderedFileStatus(
+          file,
+          quartoRoot,
+          outputDir,
+        );
+
+        if (status === "missing") {
+          report.missing.push(file);
+          return;
+        }
+
+        if (!meta) {
+          if (status === "stale") {
+            report.stale.push(file);
+          }
+          return;
+        }
+
+        const key = `source-hash:${relative(quartoRoot, file)}`;
+        const hash = await hashFile(file);
+
+        if (status === "fresh") {
+          meta.set(key, hash);
+        } else if (meta.get(key) !== hash) {
+          report.stale.push(file);
+        }
+      }),
+    ),
+  );
+
+  report.stale.sort();
+  report.missing.sort();
+  return report;
+}
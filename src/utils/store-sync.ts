@@ -0,0 +1,61 @@
+/**
+ * Incremental synchronisation helpers for Astro's content-layer store
+ */
+
+import { createHash } from "crypto";
+import type { DataStore } from "astro/loaders";
+
+/**
+ * Fields of a store entry that contribute to its digest
+ */
+export interface DigestInput {
+  data: Record<string, unknown>;
+  body?: string;
+  filePath?: string;
+}
+
+/**
+ * Create a content digest for an entry
+ * Dates are serialized as ISO strings so equal values produce equal digests
+ */
+export function createEntryDigest(input: DigestInput): string {
+  const serialized = JSON.stringify([
+    input.data,
+    input.body ?? "",
+    input.filePath ?? "",
+  ]);
+
+  return createHash("sha256").update(serialized).digest("hex");
+}
+
+/**
+ * Check whether the store already holds an entry with the given digest
+ */
+export function isEntryUnchanged(
+  store: Pick<DataStore, "get">,
+  id: string,
+  digest: string,
+): boolean {
+  const existing = store.get(id);
+  return existing !== undefined && existing.digest === digest;
+}
+
+/**
+ * Delete store entries that were not produced by the current load
+ * Returns the IDs that were removed
+ */
+export function pruneStaleEntries(
+  store: Pick<DataStore, "keys" | "delete">,
+  seenIds: Set<string>,
+): string[] {
+  const removed: string[] = [];
+
+  for (const id of store.keys()) {
+    if (!seenIds.has(id)) {
+      store.delete(id);
+      removed.push(id);
+    }
+  }
+
+  return removed;
+}
@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { writeFile, mkdir, rm } from "fs/promises";
+import { writeFile, mkdir, rm, utimes } from "fs/promises";
 import { join } from "path";
-import { quartoLoader } from "../../src/index.js";
+import {
+  AggregatedLoadError,
+  QmdParseError,
+  quartoLoader,
+  StaleOutputError,
+} from "../../src/index.js";
 
 describe("Content Rendering Integration", () => {
   const testDir = join(process.cwd(), "test-content-rendering");
@@ -63,6 +68,9 @@ This is the **markdown content** from Quarto.
       set: (entry: { id: string; data: any; body?: string }) => {
         entries.push(entry);
       },
+      get: () => undefined,
+      keys: () => [],
+      delete: () => {},
       clear: () => {},
       addModuleImport: () => {}, // Mock for Astro's module import registration
     };
@@ -118,6 +126,9 @@ date: "2024-01-15"
       set: (entry: { id: string; data: any; body?: string }) => {
         entries.push(entry);
       },
+      get: () => undefined,
+      keys: () => [],
+      delete: () => {},
       clear: () => {},
       addModuleImport: () => {}, // Mock for Astro's module import registration
     };
@@ -163,6 +174,9 @@ listing:
     const warnings: string[] = [];
     const mockStore = {
       set: (entry: any) => entries.push(entry),
+      get: () => undefined,
+      keys: () => [],
+      delete: () => {},
       clear: () => {},
       addModuleImport: () => {}, // Mock for Astro's module import registration
     };
@@ -185,4 +199,129 @@ listing:
       warnings.some((w) => w.includes("format") && w.includes("gfm")),
     ).toBe(true);
   });
+
+  it("should fail on stale rendered output when configured", async () => {
+    const quartoYaml = `
+project:
+  type: website
+  output-dir: _site
+
+format: gfm
+
+listing:
+  - id: blog
+    contents: posts/*.qmd
+`;
+    await writeFile(join(quartoRoot, "_quarto.yml"), quartoYaml);
+
+    const qmdPath = join(quartoRoot, "posts", "test.qmd");
+    const mdPath = join(quartoRoot, outputDir, "posts", "test.md");
+    await writeFile(qmdPath, '---\ntitle: "Test"\ndate: "2024-01-15"\n---\n');
+    await writeFile(mdPath, "Content");
+    await utimes(mdPath, new Date("2024-01-01"), new Date("2024-01-01"));
+    await utimes(qmdPath, new Date("2024-01-02"), new Date("2024-01-02"));
+
+    const mockStore = {
+      set: () => {},
+      get: () => undefined,
+      keys: () => [],
+      delete: () => {},
+      clear: () => {},
+      addModuleImport: () => {},
+    };
+
+    const loader = quartoLoader({
+      quartoRoot,
+      listings: "blog",
+      staleOutputs: "error",
+    });
+
+    await expect(
+      loader.load({
+        store: mockStore as any,
+        meta: {} as any,
+        logger: { ...console, error: () => {} } as any,
+        parseData: async (data: any) => data,
+      }),
+    ).rejects.toThrow(StaleOutputError);
+  });
+
+  describe("onError policy", () => {
+    const setupProject = async () => {
+      await writeFile(
+        join(quartoRoot, "_quarto.yml"),
+        `
+project:
+  type: website
+  output-dir: _site
+
+format: gfm
+
+listing:
+  - id: blog
+    contents: posts/*.qmd
+`,
+      );
+      await writeFile(
+        join(quartoRoot, "posts", "good.qmd"),
+        '---\ntitle: "Good"\ndate: "2024-01-15"\n---\n',
+      );
+      await writeFile(join(quartoRoot, outputDir, "posts", "good.md"), "Good");
+      await writeFile(
+        join(quartoRoot, "posts", "broken.qmd"),
+        '---\ntitle: "Broken\ndate: [2024\n---\n',
+      );
+      await writeFile(
+        join(quartoRoot, outputDir, "posts", "broken.md"),
+        "Broken",
+      );
+    };
+
+    const load = (onError?: "throw" | "skip" | "collect") => {
+      const ids: string[] = [];
+      const mockStore = {
+        set: (entry: { id: string }) => {
+          ids.push(entry.id);
+        },
+        get: () => undefined,
+        keys: () => [],
+        delete: () => {},
+        clear: () => {},
+        addModuleImport: () => {},
+      };
+
+      const promise = quartoLoader({ quartoRoot, listings: "blog", onError })
+        .load({
+          store: mockStore as any,
+          meta: {} as any,
+          logger: { ...console, error: () => {} } as any,
+          parseData: async (data: any) => data,
+        })
+        .then(() => ids);
+      return { ids, promise };
+    };
+
+    it("should skip files with malformed frontmatter by default", async () => {
+      await setupProject();
+      expect(await load().promise).toEqual(["good"]);
+    });
+
+    it("should abort on the first failure with 'throw'", async () => {
+      await setupProject();
+      await expect(load("throw").promise).rejects.toThrow(QmdParseError);
+    });
+
+    it("should load the rest and report every failure with 'collect'", async () => {
+      await setupProject();
+      const { ids, promise } = load("collect");
+
+      const error = await promise.catch((e) => e);
+      expect(error).toBeInstanceOf(AggregatedLoadError);
+      expect(error.failures).toHaveLength(1);
+      expect(error.failures[0].filePath).toBe(join("posts", "broken.qmd"));
+      expect(error.failures[0].phase).toBe("parse");
+      expect(error.message).toContain("posts/broken.qmd (parse)");
+      expect(ids).toEqual(["good"]);
+    });
+  });
 });
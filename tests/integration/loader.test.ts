@@ -2,8 +2,12 @@
  * Integration tests for Quarto Loader
  */
 
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "events";
+import { execFileSync } from "child_process";
+import { cp, mkdir, readFile, rm, writeFile } from "fs/promises";
 import { resolve } from "path";
+import { z } from "zod";
 import { quartoLoader } from "../../src/loader.js";
 
 describe("Quarto Loader Integration", () => {
@@ -12,14 +16,30 @@ describe("Quarto Loader Integration", () => {
   // Mock store and logger for testing
   const createMockStore = () => {
     const entries = new Map();
+    const records = new Map<string, { id: string; data: any; digest?: any }>();
+    let writes = 0;
     return {
       entries,
-      set: ({ id, data }: { id: string; data: any }) => {
-        entries.set(id, data);
+      records,
+      writes: () => writes,
+      set: (entry: { id: string; data: any; digest?: any }) => {
+        entries.set(entry.id, entry.data);
+        records.set(entry.id, entry);
+        writes++;
+        return true;
+      },
+      get: (id: string) => records.get(id),
+      has: (id: string) => records.has(id),
+      keys: () => Array.from(records.keys()),
+      delete: (id: string) => {
+        entries.delete(id);
+        records.delete(id);
       },
-      get: (id: string) => entries.get(id),
       all: () => Array.from(entries.values()),
-      clear: () => entries.clear(),
+      clear: () => {
+        entries.clear();
+        records.clear();
+      },
       addModuleImport: () => {}, // Mock for Astro's module import registration
     };
   };
@@ -135,6 +155,8 @@ describe("Quarto Loader Integration", () => {
         parseData: async () => ({}),
       });
 
+      // Entries validate without the default pubDate field
+      expect(store.entries.size).toBe(2);
       const firstEntry = store.entries.values().next().value;
 
       if (firstEntry) {
@@ -193,6 +215,85 @@ describe("Quarto Loader Integration", () => {
 
       expect(store.entries.size).toBeGreaterThan(0);
     });
+
+    it("should not let filtered-out entries claim IDs", async () => {
+      const testDir = resolve(process.cwd(), "test-output-filter-ids");
+      await cp(fixturesPath, testDir, { recursive: true });
+      await writeFile(
+        resolve(testDir, "posts/2025-11-20-first-post-draft.qmd"),
+        '---\ntitle: "Draft Rewrite"\nslug: first-post\ndate: "2025-11-20"\ndraft: true\n---\n',
+      );
+
+      try {
+        const loader = quartoLoader({
+          quartoRoot: testDir,
+          listings: "blog-posts",
+          filter: (entry) => entry.draft !== true,
+        });
+        const store = createMockStore();
+        await loader.load({
+          store,
+          logger: mockLogger,
+          meta: { mode: "build" },
+          parseData: async () => ({}),
+        });
+
+        expect(store.entries.get("first-post").title).toBe("My First Post");
+      } finally {
+        await rm(testDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Bounded Concurrency", () => {
+    it("should limit in-flight filter calls to the parallel count", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+        parallel: 1,
+        filter: async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+          return true;
+        },
+      });
+
+      const store = createMockStore();
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      expect(maxActive).toBe(1);
+      expect(store.entries.size).toBeGreaterThan(0);
+    });
+
+    it("should load the same entries regardless of concurrency", async () => {
+      const loadWith = async (parallel: boolean | number) => {
+        const store = createMockStore();
+        await quartoLoader({
+          quartoRoot: fixturesPath,
+          listings: "blog-posts",
+          parallel,
+        }).load({
+          store,
+          logger: mockLogger,
+          meta: { mode: "build" },
+          parseData: async () => ({}),
+        });
+        return store.keys();
+      };
+
+      const sequential = await loadWith(false);
+      expect(await loadWith(2)).toEqual(sequential);
+      expect(await loadWith(true)).toEqual(sequential);
+    });
   });
 
   describe("Transform Function", () => {
@@ -246,6 +347,713 @@ describe("Quarto Loader Integration", () => {
     });
   });
 
+  describe("Per-Listing Options", () => {
+    it("should apply overrides for the matching listing", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: ["blog-posts", "tutorials"],
+        fieldMappings: { description: "summary" },
+        perListing: {
+          "blog-posts": {
+            fieldMappings: { "date-modified": "editedAt" },
+            transform: (entry) => ({ ...entry, section: "blog" }),
+          },
+        },
+      });
+
+      const store = createMockStore();
+
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      const entry = store.entries.get("first-post");
+      expect(entry.summary).toBeDefined();
+      expect(entry.editedAt).toBeDefined();
+      expect(entry.section).toBe("blog");
+    });
+  });
+
+  describe("Astro Image Integration", () => {
+    it("should resolve images relative to the rendered output", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+        assets: { astroImage: true },
+      });
+
+      const store = createMockStore();
+      const parsed: Array<{ id: string; data: any; filePath?: string }> = [];
+
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async (props: any) => {
+          parsed.push(props);
+          return props.data;
+        },
+      });
+
+      const firstPost = parsed.find((p) => p.id === "first-post");
+      expect(firstPost?.filePath).toMatch(
+        /_site[\\/]posts[\\/]2025-11-24-first-post\.md$/,
+      );
+      expect(firstPost?.data.heroImage).toBe("../../posts/featured.jpg");
+    });
+  });
+
+  describe("Published Assets", () => {
+    const testDir = resolve(process.cwd(), "test-output-published-assets");
+    const quartoRoot = resolve(testDir, "quarto");
+    const publicDir = resolve(testDir, "public", "quarto");
+
+    beforeEach(async () => {
+      await cp(fixturesPath, quartoRoot, { recursive: true });
+      const qmdPath = resolve(quartoRoot, "posts/2025-11-24-first-post.qmd");
+      await writeFile(
+        qmdPath,
+        (await readFile(qmdPath, "utf-8")).replace(
+          "featured.jpg",
+          "/images/cover.png",
+        ),
+      );
+      await mkdir(resolve(quartoRoot, "images"));
+      await writeFile(resolve(quartoRoot, "images/cover.png"), "cover");
+
+      const figuresDir = resolve(
+        quartoRoot,
+        "_site/posts/2025-11-24-first-post_files/figure-commonmark",
+      );
+      await mkdir(figuresDir, { recursive: true });
+      await writeFile(resolve(figuresDir, "fig-1.png"), "figure");
+      const mdPath = resolve(
+        quartoRoot,
+        "_site/posts/2025-11-24-first-post.md",
+      );
+      await writeFile(
+        mdPath,
+        (await readFile(mdPath, "utf-8")) +
+          "\n![](2025-11-24-first-post_files/figure-commonmark/fig-1.png)\n" +
+          "\n![](../../../../../etc/hostname)\n",
+      );
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it("should render the body with published asset URLs", async () => {
+      const loader = quartoLoader({
+        quartoRoot,
+        listings: "blog-posts",
+        assets: { strategy: "copy", publicDir, publicUrl: "/quarto" },
+      });
+      const store = createMockStore();
+      const rendered: string[] = [];
+      const metaValues = new Map<string, string>();
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: {
+          mode: "build",
+          get: (key: string) => metaValues.get(key),
+          set: (key: string, value: string) => {
+            metaValues.set(key, value);
+          },
+        },
+        parseData: async () => ({}),
+        renderMarkdown: async (content: string) => {
+          rendered.push(content);
+          return { html: content };
+        },
+      });
+
+      const record = store.get("first-post") as any;
+      expect(record.deferredRender).toBeUndefined();
+      expect(record.rendered.html).toContain(
+        "![](/quarto/posts/2025-11-24-first-post_files/figure-commonmark/fig-1.png)",
+      );
+      expect(rendered).toContain(record.body);
+
+      // A leading '/' is relative to the project root
+      expect(record.data.heroImage).toBe("/quarto/images/cover.png");
+      expect(
+        await readFile(resolve(publicDir, "images/cover.png"), "utf-8"),
+      ).toBe("cover");
+
+      // Files outside the project are left alone
+      expect(record.body).toContain("![](../../../../../etc/hostname)");
+    });
+  });
+
+  describe("Listing Membership", () => {
+    it("should record every listing an entry belongs to", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: ["featured", "blog-posts"],
+      });
+
+      const store = createMockStore();
+
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      expect(store.entries.get("first-post").listings).toEqual([
+        "featured",
+        "blog-posts",
+      ]);
+      expect(store.entries.get("second-post").listings).toEqual(["blog-posts"]);
+    });
+
+    it("should process shared documents once", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: ["blog-posts", "featured"],
+      });
+
+      const store = createMockStore();
+
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      expect(store.writes()).toBe(store.entries.size);
+    });
+  });
+
+  describe("Incremental Sync", () => {
+    it("should skip entries whose digest is unchanged", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+      });
+
+      const store = createMockStore();
+      const context = {
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      };
+
+      await loader.load(context);
+      const firstWrites = store.writes();
+      expect(firstWrites).toBe(store.entries.size);
+
+      await loader.load(context);
+      expect(store.writes()).toBe(firstWrites);
+    });
+
+    it("should remove entries that no longer have a source", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+      });
+
+      const store = createMockStore();
+      store.set({ id: "deleted-post", data: { title: "Gone" } });
+
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      expect(store.has("deleted-post")).toBe(false);
+      expect(store.entries.size).toBeGreaterThan(0);
+    });
+
+    it("should remove entries that are filtered out", async () => {
+      const store = createMockStore();
+      const context = {
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      };
+
+      await quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+      }).load(context);
+      expect(store.has("second-post")).toBe(true);
+
+      await quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+        filter: (entry) => entry.title !== "Advanced Topics",
+      }).load(context);
+      expect(store.has("second-post")).toBe(false);
+      expect(store.has("first-post")).toBe(true);
+    });
+  });
+
+  describe("Persistent Cache", () => {
+    it("should reuse cached results across loader instances", async () => {
+      const metaValues = new Map<string, string>();
+      const meta = {
+        mode: "build",
+        get: (key: string) => metaValues.get(key),
+        set: (key: string, value: string) => {
+          metaValues.set(key, value);
+        },
+        has: (key: string) => metaValues.has(key),
+        delete: (key: string) => {
+          metaValues.delete(key);
+        },
+      };
+      const config = {
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+        cache: { persistent: true },
+      };
+
+      const firstStore = createMockStore();
+      await quartoLoader(config).load({
+        store: firstStore,
+        logger: mockLogger,
+        meta,
+        parseData: async () => ({}),
+      } as any);
+      const cachedKeys = [...metaValues.keys()];
+      expect(
+        cachedKeys.some((key) => key.startsWith("cache:frontmatter:")),
+      ).toBe(true);
+      expect(cachedKeys.some((key) => key.startsWith("cache:entry:"))).toBe(
+        true,
+      );
+      expect(cachedKeys.some((key) => key.startsWith("cache:body:"))).toBe(
+        true,
+      );
+
+      const secondStore = createMockStore();
+      await quartoLoader(config).load({
+        store: secondStore,
+        logger: mockLogger,
+        meta,
+        parseData: async () => ({}),
+      } as any);
+
+      expect(secondStore.keys()).toEqual(firstStore.keys());
+      const entry = secondStore.get("first-post");
+      expect(entry?.data.pubDate).toBeInstanceOf(Date);
+      expect(entry?.digest).toBe(firstStore.get("first-post")?.digest);
+    });
+
+    it("should not reuse entries after the output directory changes", async () => {
+      const testDir = resolve(process.cwd(), "test-output-cache-profile");
+      await cp(fixturesPath, testDir, { recursive: true });
+      await cp(resolve(testDir, "_site"), resolve(testDir, "_build/site"), {
+        recursive: true,
+      });
+      await writeFile(
+        resolve(testDir, "_quarto-nested.yml"),
+        "project:\n  output-dir: _build/site\n",
+      );
+
+      const metaValues = new Map<string, string>();
+      const meta = {
+        mode: "build",
+        get: (key: string) => metaValues.get(key),
+        set: (key: string, value: string) => {
+          metaValues.set(key, value);
+        },
+        has: (key: string) => metaValues.has(key),
+        delete: (key: string) => {
+          metaValues.delete(key);
+        },
+      };
+      const config = {
+        quartoRoot: testDir,
+        listings: "blog-posts",
+        cache: { persistent: true },
+        assets: { astroImage: true },
+      };
+      const load = async () => {
+        const store = createMockStore();
+        await quartoLoader(config).load({
+          store,
+          logger: mockLogger,
+          meta,
+          parseData: async (props: any) => props.data,
+        } as any);
+        return store.get("first-post")?.data.heroImage;
+      };
+
+      try {
+        vi.stubEnv("QUARTO_PROFILE", "");
+        expect(await load()).toBe("../../posts/featured.jpg");
+
+        vi.stubEnv("QUARTO_PROFILE", "nested");
+        expect(await load()).toBe("../../../posts/featured.jpg");
+      } finally {
+        vi.unstubAllEnvs();
+        await rm(testDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Git Dates", () => {
+    const testDir = resolve(process.cwd(), "test-output-git-dates");
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it("should fill dates and contributors from git history", async () => {
+      await cp(fixturesPath, testDir, { recursive: true });
+      execFileSync("git", ["init", "-q"], { cwd: testDir });
+      execFileSync("git", ["add", "-A"], { cwd: testDir });
+      execFileSync(
+        "git",
+        ["-c", "commit.gpgsign=false", "commit", "-q", "-m", "Add posts"],
+        {
+          cwd: testDir,
+          env: {
+            ...process.env,
+            GIT_AUTHOR_NAME: "Ann",
+            GIT_AUTHOR_EMAIL: "ann@example.com",
+            GIT_AUTHOR_DATE: "2025-12-01T12:00:00Z",
+            GIT_COMMITTER_NAME: "Ann",
+            GIT_COMMITTER_EMAIL: "ann@example.com",
+            GIT_COMMITTER_DATE: "2025-12-01T12:00:00Z",
+          },
+        },
+      );
+
+      const loader = quartoLoader({
+        quartoRoot: testDir,
+        listings: "blog-posts",
+        gitDates: { created: true, contributors: true },
+      });
+      const store = createMockStore();
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      const committed = new Date("2025-12-01T12:00:00Z");
+      const secondPost = store.entries.get("second-post");
+      expect(secondPost.updatedDate).toEqual(committed);
+      expect(secondPost.createdDate).toEqual(committed);
+      expect(secondPost.contributors).toEqual(["Ann"]);
+      // Frontmatter dates take precedence
+      expect(store.entries.get("first-post").updatedDate).toEqual(
+        new Date("2025-11-24"),
+      );
+    });
+  });
+
+  describe("Metadata Inheritance", () => {
+    const testDir = resolve(process.cwd(), "test-output-metadata");
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    const loadBlogPosts = async () => {
+      const loader = quartoLoader({
+        quartoRoot: testDir,
+        listings: "blog-posts",
+      });
+      const store = createMockStore();
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+      return store;
+    };
+
+    it("should merge metadata-files and directory metadata into documents", async () => {
+      await cp(fixturesPath, testDir, { recursive: true });
+      const quartoYml = await readFile(
+        resolve(testDir, "_quarto.yml"),
+        "utf-8",
+      );
+      await writeFile(
+        resolve(testDir, "_quarto.yml"),
+        `${quartoYml}\nmetadata-files: [shared.yml]\n`,
+      );
+      await writeFile(resolve(testDir, "shared.yml"), "tags: [site]\n");
+      await writeFile(
+        resolve(testDir, "posts/_metadata.yml"),
+        "author: Blog Team\ncategories: [Blog]\n",
+      );
+
+      const store = await loadBlogPosts();
+
+      const firstPost = store.entries.get("first-post");
+      // Document values replace scalars and extend arrays
+      expect(firstPost.author).toBe("John Doe");
+      expect(firstPost.categories).toEqual([
+        "Blog",
+        "Technology",
+        "Web Development",
+      ]);
+      expect(firstPost.tags).toEqual(["site", "astro", "quarto"]);
+    });
+
+    it("should fail when a metadata file is missing", async () => {
+      await cp(fixturesPath, testDir, { recursive: true });
+      const quartoYml = await readFile(
+        resolve(testDir, "_quarto.yml"),
+        "utf-8",
+      );
+      await writeFile(
+        resolve(testDir, "_quarto.yml"),
+        `${quartoYml}\nmetadata-files: [missing.yml]\n`,
+      );
+
+      await expect(loadBlogPosts()).rejects.toThrow("Metadata file not found");
+    });
+
+    it("should not inherit render and format options", async () => {
+      await cp(fixturesPath, testDir, { recursive: true });
+      const quartoYml = await readFile(
+        resolve(testDir, "_quarto.yml"),
+        "utf-8",
+      );
+      await writeFile(
+        resolve(testDir, "_quarto.yml"),
+        `${quartoYml}\neditor: visual\ntoc: true\ntoc-depth: 2\nbibliography: refs.bib\nsite-owner: Jane\n`,
+      );
+      await writeFile(
+        resolve(testDir, "posts/_metadata.yml"),
+        "code-fold: true\nnumber-sections: true\n",
+      );
+
+      const store = await loadBlogPosts();
+
+      const firstPost = store.entries.get("first-post");
+      expect(firstPost["site-owner"]).toBe("Jane");
+      for (const key of [
+        "editor",
+        "toc",
+        "toc-depth",
+        "bibliography",
+        "code-fold",
+        "number-sections",
+      ]) {
+        expect(firstPost).not.toHaveProperty(key);
+      }
+    });
+  });
+
+  describe("Quarto Profiles", () => {
+    const testDir = resolve(process.cwd(), "test-output-profiles");
+
+    beforeEach(async () => {
+      await cp(fixturesPath, testDir, { recursive: true });
+      await writeFile(
+        resolve(testDir, "_quarto-production.yml"),
+        [
+          "listing:",
+          "  - id: first-only",
+          "    contents: posts/2025-11-24-first-post.qmd",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    afterEach(async () => {
+      vi.unstubAllEnvs();
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it("should merge the profile's config", async () => {
+      const loader = quartoLoader({
+        quartoRoot: testDir,
+        profile: "production",
+        listings: "first-only",
+      });
+      const store = createMockStore();
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      expect(Array.from(store.entries.keys())).toEqual(["first-post"]);
+    });
+
+    it("should read the profile from QUARTO_PROFILE", async () => {
+      vi.stubEnv("QUARTO_PROFILE", "production");
+      const loader = quartoLoader({ quartoRoot: testDir });
+      const store = createMockStore();
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      expect(store.get("first-post")?.data.listings).toContain("first-only");
+    });
+
+    it("should ignore profile files without a profile", async () => {
+      vi.stubEnv("QUARTO_PROFILE", "");
+      const loader = quartoLoader({
+        quartoRoot: testDir,
+        listings: "first-only",
+      });
+
+      await expect(
+        loader.load({
+          store: createMockStore(),
+          logger: mockLogger,
+          meta: { mode: "build" },
+          parseData: async () => ({}),
+        }),
+      ).rejects.toThrow("first-only");
+    });
+  });
+
+  describe("Diagnostics", () => {
+    const reportFile = resolve(
+      process.cwd(),
+      "test-output-loader",
+      "quarto-loader-report.json",
+    );
+
+    afterEach(async () => {
+      await rm(resolve(process.cwd(), "test-output-loader"), {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it("should print a summary and write a JSON report", async () => {
+      const messages: string[] = [];
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: ["blog-posts", "featured"],
+        diagnostics: { file: reportFile },
+      });
+
+      await loader.load({
+        store: createMockStore(),
+        logger: { ...mockLogger, info: (m: string) => messages.push(m) },
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      expect(messages.some((m) => m.includes("Quarto loader summary"))).toBe(
+        true,
+      );
+
+      const report = JSON.parse(await readFile(reportFile, "utf-8"));
+      const [posts, featured] = report.listings;
+      expect(posts.listing).toBe("blog-posts");
+      expect(posts.matched).toBe(3);
+      expect(posts.parsed).toBe(3);
+      expect(posts.failedValidation).toBe(1);
+      expect(posts.entries).toBe(2);
+      expect(featured.matched).toBe(1);
+      expect(featured.parsed).toBe(0);
+      expect(report.totalEntries).toBe(2);
+      expect(report.failures).toHaveLength(1);
+      expect(report.failures[0].phase).toBe("validate");
+      expect(report.failures[0].message).toContain(
+        "sample-quarto-project/posts/draft-post.qmd",
+      );
+    });
+
+    it("should count missing renders when stale outputs are ignored", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        outputDir: "_unrendered",
+        listings: "blog-posts",
+        staleOutputs: "ignore",
+        diagnostics: { file: reportFile },
+      });
+
+      await loader.load({
+        store: createMockStore(),
+        logger: mockLogger,
+        meta: { mode: "build" },
+        parseData: async () => ({}),
+      });
+
+      const report = JSON.parse(await readFile(reportFile, "utf-8"));
+      expect(report.listings[0].missingRenders).toBe(3);
+      expect(report.listings[0].staleRenders).toBe(0);
+    });
+  });
+
+  describe("Dev Reload", () => {
+    const createMockWatcher = () =>
+      Object.assign(new EventEmitter(), { add: vi.fn() });
+
+    it("should attach to Astro's watcher once per load", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+      });
+      const watcher = createMockWatcher();
+      const context = {
+        store: createMockStore(),
+        logger: mockLogger,
+        meta: { mode: "dev" },
+        parseData: async () => ({}),
+        watcher,
+      };
+
+      await loader.load(context as any);
+      await loader.load(context as any);
+
+      expect(watcher.add).toHaveBeenCalledWith(fixturesPath);
+      expect(watcher.listenerCount("change")).toBe(1);
+      expect(watcher.listenerCount("unlink")).toBe(1);
+    });
+
+    it("should reload content when a document changes", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+      });
+      const watcher = createMockWatcher();
+      const store = createMockStore();
+
+      await loader.load({
+        store,
+        logger: mockLogger,
+        meta: { mode: "dev" },
+        parseData: async () => ({}),
+        watcher,
+      } as any);
+      store.set({ id: "ghost", data: { title: "Ghost" } });
+
+      // Changes in the output directory are ignored
+      watcher.emit("change", resolve(fixturesPath, "_site/posts/ghost.md"));
+      await new Promise((r) => setTimeout(r, 300));
+      expect(store.has("ghost")).toBe(true);
+
+      watcher.emit(
+        "change",
+        resolve(fixturesPath, "posts/2025-11-24-first-post.qmd"),
+      );
+      await vi.waitFor(() => expect(store.has("ghost")).toBe(false));
+      expect(store.has("first-post")).toBe(true);
+    });
+  });
+
   describe("Schema Generation", () => {
     it("should generate and return schema", async () => {
       const loader = quartoLoader({
@@ -257,6 +1065,59 @@ describe("Quarto Loader Integration", () => {
       expect(schema).toBeDefined();
       expect(schema.shape).toBeDefined();
     });
+
+    it("should infer fields from documents and apply schema.extend", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: "blog-posts",
+        schema: {
+          extend: z.object({ featured: z.boolean().default(false) }),
+        },
+      });
+
+      const schema = (await loader.schema!()) as z.AnyZodObject;
+      expect(Object.keys(schema.shape)).toEqual(
+        expect.arrayContaining([
+          "title",
+          "pubDate",
+          "heroImage",
+          "tags",
+          "listings",
+          "featured",
+        ]),
+      );
+      expect(
+        schema.parse({ title: "Post", pubDate: new Date() }).featured,
+      ).toBe(false);
+    });
+
+    it("should merge the schemas of every loaded listing", async () => {
+      const loader = quartoLoader({
+        quartoRoot: fixturesPath,
+        listings: ["featured", "blog-posts"],
+        perListing: {
+          featured: {
+            schema: { extend: z.object({ spotlight: z.string() }) },
+          },
+        },
+      });
+
+      const schema = (await loader.schema!()) as z.AnyZodObject;
+      // Only entries of the 'featured' listing must have a spotlight
+      expect(schema.shape.spotlight!.isOptional()).toBe(true);
+      expect(
+        schema.safeParse({ title: "Post", pubDate: new Date(), spotlight: 1 })
+          .success,
+      ).toBe(false);
+    });
+
+    it("should fall back to the base schema when the config can't be read", async () => {
+      const loader = quartoLoader({ quartoRoot: "/non/existent/path" });
+
+      const schema = (await loader.schema!()) as z.AnyZodObject;
+      expect(schema.shape.title).toBeDefined();
+      expect(schema.shape.pubDate).toBeDefined();
+    });
   });
 
   describe("Error Handling", () => {
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeFile, mkdir, rm, readFile, lstat, access } from "fs/promises";
+import { join } from "path";
+import {
+  AssetPublisher,
+  derivePublicUrl,
+  isLocalAssetPath,
+} from "../../src/utils/assets.js";
+
+describe("assets", () => {
+  const testDir = join(process.cwd(), "test-output-assets");
+  const quartoRoot = join(testDir, "quarto");
+  const outputDir = join(quartoRoot, "_site");
+  const publicDir = join(testDir, "public", "quarto");
+  const mdPath = join(outputDir, "posts", "post.md");
+
+  beforeEach(async () => {
+    await mkdir(join(outputDir, "posts", "post_files", "figure-commonmark"), {
+      recursive: true,
+    });
+    await mkdir(join(quartoRoot, "posts"), { recursive: true });
+    await writeFile(
+      join(outputDir, "posts", "post_files", "figure-commonmark", "fig-1.png"),
+      "figure",
+    );
+    await writeFile(join(quartoRoot, "posts", "cover.png"), "cover");
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const createPublisher = (strategy: "copy" | "symlink") =>
+    new AssetPublisher({
+      strategy,
+      publicDir,
+      publicUrl: "/quarto",
+      quartoRoot,
+      outputDir,
+    });
+
+  describe("isLocalAssetPath", () => {
+    it("should detect local paths", () => {
+      expect(isLocalAssetPath("figure.png")).toBe(true);
+      expect(isLocalAssetPath("../img/figure.png")).toBe(true);
+      expect(isLocalAssetPath("https://example.com/a.png")).toBe(false);
+      expect(isLocalAssetPath("data:image/png;base64,AAAA")).toBe(false);
+      expect(isLocalAssetPath("//cdn.example.com/a.png")).toBe(false);
+    });
+  });
+
+  describe("derivePublicUrl", () => {
+    it("should derive the URL from Astro's public directory", () => {
+      expect(derivePublicUrl(publicDir, testDir)).toBe("/quarto");
+    });
+
+    it("should throw when the directory is outside public/", () => {
+      expect(() => derivePublicUrl(join(testDir, "static"), testDir)).toThrow(
+        "publicUrl",
+      );
+    });
+  });
+
+  describe("AssetPublisher", () => {
+    it("should copy source images to a mirrored public path", async () => {
+      const publisher = createPublisher("copy");
+      const url = await publisher.publish(
+        join(quartoRoot, "posts", "cover.png"),
+      );
+
+      expect(url).toBe("/quarto/posts/cover.png");
+      expect(
+        await readFile(join(publicDir, "posts", "cover.png"), "utf-8"),
+      ).toBe("cover");
+    });
+
+    it("should return undefined for missing files", async () => {
+      const publisher = createPublisher("copy");
+      expect(
+        await publisher.publish(join(quartoRoot, "missing.png")),
+      ).toBeUndefined();
+    });
+
+    it("should read a leading slash as relative to the project root", async () => {
+      const publisher = createPublisher("copy");
+      expect(await publisher.publish("/posts/cover.png")).toBe(
+        "/quarto/posts/cover.png",
+      );
+    });
+
+    it("should refuse files outside the project", async () => {
+      await writeFile(join(testDir, "secret.txt"), "secret");
+      const publisher = createPublisher("copy");
+
+      expect(
+        await publisher.publish(join(testDir, "secret.txt")),
+      ).toBeUndefined();
+      expect(
+        await publisher.publish(join(quartoRoot, "..", "secret.txt")),
+      ).toBeUndefined();
+      expect(await publisher.publish("/../secret.txt")).toBeUndefined();
+    });
+
+    it("should symlink the supporting files directory", async () => {
+      const publisher = createPublisher("symlink");
+      const url = await publisher.publishSupportingFiles(mdPath);
+
+      expect(url).toBe("/quarto/posts/post_files");
+      const stats = await lstat(join(publicDir, "posts", "post_files"));
+      expect(stats.isSymbolicLink()).toBe(true);
+    });
+
+    it("should skip up-to-date files when copying a directory", async () => {
+      await createPublisher("copy").publishSupportingFiles(mdPath);
+      const published = join(
+        publicDir,
+        "posts",
+        "post_files",
+        "figure-commonmark",
+        "fig-1.png",
+      );
+      // Same size, newer mtime: only a re-copy would restore "figure"
+      await writeFile(published, "FIGURE");
+
+      await createPublisher("copy").publishSupportingFiles(mdPath);
+      expect(await readFile(published, "utf-8")).toBe("FIGURE");
+    });
+
+    it("should prune assets the previous load published", async () => {
+      const metaValues = new Map<string, string>();
+      const meta = {
+        get: (key: string) => metaValues.get(key),
+        set: (key: string, value: string) => {
+          metaValues.set(key, value);
+        },
+      };
+
+      const first = createPublisher("copy");
+      await first.publish(join(quartoRoot, "posts", "cover.png"));
+      await first.publishSupportingFiles(mdPath);
+      expect(await first.prune(meta)).toEqual([]);
+
+      const second = createPublisher("copy");
+      await second.publish(join(quartoRoot, "posts", "cover.png"));
+      expect(await second.prune(meta)).toEqual([
+        "posts/post_files/figure-commonmark/fig-1.png",
+      ]);
+
+      await expect(
+        access(join(publicDir, "posts", "post_files")),
+      ).rejects.toThrow();
+      expect(
+        await readFile(join(publicDir, "posts", "cover.png"), "utf-8"),
+      ).toBe("cover");
+    });
+
+    it("should rewrite image references in markdown", async () => {
+      const publisher = createPublisher("copy");
+      const body =
+        "![](post_files/figure-commonmark/fig-1.png)\n\n" +
+        '<img src="post_files/figure-commonmark/fig-1.png" width="50%">\n\n' +
+        "![remote](https://example.com/a.png)";
+
+      const result = await publisher.rewriteMarkdownImages(body, mdPath);
+
+      expect(result).toContain(
+        "![](/quarto/posts/post_files/figure-commonmark/fig-1.png)",
+      );
+      expect(result).toContain(
+        '<img src="/quarto/posts/post_files/figure-commonmark/fig-1.png" width="50%">',
+      );
+      expect(result).toContain("![remote](https://example.com/a.png)");
+      expect(
+        await readFile(
+          join(
+            publicDir,
+            "posts",
+            "post_files",
+            "figure-commonmark",
+            "fig-1.png",
+          ),
+          "utf-8",
+        ),
+      ).toBe("figure");
+    });
+  });
+});
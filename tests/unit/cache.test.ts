@@ -2,8 +2,14 @@
  * Unit tests for caching utilities
  */
 
-import { describe, it, expect, beforeEach } from "vitest";
-import { FileCache } from "../../src/utils/cache.js";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  FileCache,
+  formatCacheStats,
+  normalizeCacheConfig,
+} from "../../src/utils/cache.js";
 
 describe("FileCache", () => {
   let cache: FileCache<string>;
@@ -49,3 +55,79 @@ describe("FileCache", () => {
     expect(smallCache.size()).toBeLessThanOrEqual(2);
   });
 });
+
+describe("FileCache statistics", () => {
+  const testDir = join(process.cwd(), "test-output-cache");
+  const fileA = join(testDir, "a.md");
+  const fileB = join(testDir, "b.md");
+
+  beforeEach(async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(fileA, "A");
+    await writeFile(fileB, "B");
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should count hits, misses and evictions", async () => {
+    const cache = new FileCache<string>(1);
+
+    expect(await cache.get(fileA)).toBeUndefined();
+    await cache.set(fileA, "A");
+    expect(await cache.get(fileA)).toBe("A");
+    await cache.set(fileB, "B");
+    expect(await cache.get(fileA)).toBeUndefined();
+
+    expect(cache.getStats()).toEqual({
+      hits: 1,
+      misses: 2,
+      evictions: 1,
+      size: 1,
+      maxSize: 1,
+    });
+    expect(formatCacheStats("body", cache.getStats())).toBe(
+      "body: 1 hit(s), 2 miss(es), 1 eviction(s), 1/1 entries",
+    );
+
+    cache.resetStats();
+    expect(cache.getStats().hits).toBe(0);
+  });
+
+  it("should miss after the file changes", async () => {
+    const cache = new FileCache<string>(5);
+    await cache.set(fileA, "A");
+    await writeFile(fileA, "Changed");
+
+    expect(await cache.get(fileA)).toBeUndefined();
+    expect(cache.getStats().misses).toBe(1);
+  });
+
+  it("should not store entries when disabled", async () => {
+    const cache = new FileCache<string>(0);
+    await cache.set(fileA, "A");
+
+    expect(cache.size()).toBe(0);
+  });
+});
+
+describe("normalizeCacheConfig", () => {
+  it("should keep the persistent cache off by default", () => {
+    expect(normalizeCacheConfig(undefined)).toEqual({
+      enabled: true,
+      persistent: false,
+      maxSize: 500,
+    });
+    expect(normalizeCacheConfig(false)).toEqual({
+      enabled: false,
+      persistent: false,
+      maxSize: 500,
+    });
+    expect(normalizeCacheConfig({ persistent: true, maxSize: 50 })).toEqual({
+      enabled: true,
+      persistent: true,
+      maxSize: 50,
+    });
+  });
+});
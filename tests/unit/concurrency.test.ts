@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PARALLELISM,
+  createLimiter,
+  mapWithConcurrency,
+  normalizeParallelConfig,
+} from "../../src/utils/concurrency.js";
+
+describe("concurrency", () => {
+  const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  describe("createLimiter", () => {
+    it("should cap the number of tasks in flight", async () => {
+      const limit = createLimiter(2);
+      let active = 0;
+      let maxActive = 0;
+
+      await Promise.all(
+        Array.from({ length: 6 }, () =>
+          limit(async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await delay(5);
+            active--;
+          }),
+        ),
+      );
+
+      expect(maxActive).toBe(2);
+    });
+
+    it("should propagate rejections and keep running", async () => {
+      const limit = createLimiter(1);
+
+      await expect(
+        limit(async () => {
+          throw new Error("boom");
+        }),
+      ).rejects.toThrow("boom");
+      await expect(limit(async () => "next")).resolves.toBe("next");
+    });
+  });
+
+  describe("mapWithConcurrency", () => {
+    it("should keep the input order", async () => {
+      const result = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+        await delay(ms);
+        return ms;
+      });
+
+      expect(result).toEqual([30, 10, 20]);
+    });
+  });
+
+  describe("normalizeParallelConfig", () => {
+    it("should map the parallel option to a concurrency", () => {
+      expect(normalizeParallelConfig(undefined)).toBe(DEFAULT_PARALLELISM);
+      expect(normalizeParallelConfig(true)).toBe(DEFAULT_PARALLELISM);
+      expect(normalizeParallelConfig(false)).toBe(1);
+      expect(normalizeParallelConfig(8)).toBe(8);
+      expect(normalizeParallelConfig(0)).toBe(1);
+    });
+  });
+});
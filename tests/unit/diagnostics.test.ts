@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { readFile, rm } from "fs/promises";
+import { join } from "path";
+import {
+  createDiagnosticsReport,
+  createListingDiagnostics,
+  formatDiagnosticsTable,
+  normalizeDiagnosticsConfig,
+  writeDiagnosticsReport,
+} from "../../src/utils/diagnostics.js";
+
+describe("diagnostics", () => {
+  const testDir = join(process.cwd(), "test-output-diagnostics");
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const createReport = () => {
+    const posts = {
+      ...createListingDiagnostics("blog-posts"),
+      matched: 12,
+      parsed: 12,
+      filteredOut: 2,
+      failedValidation: 1,
+      entries: 9,
+      durationMs: 41,
+    };
+    const featured = {
+      ...createListingDiagnostics("featured"),
+      matched: 1,
+      durationMs: 3,
+    };
+    return createDiagnosticsReport(
+      [posts, featured],
+      [
+        {
+          filePath: "posts/broken.qmd",
+          phase: "validate",
+          error: new Error("title: Required"),
+        },
+      ],
+      50,
+    );
+  };
+
+  it("should print by default", () => {
+    expect(normalizeDiagnosticsConfig(undefined)).toEqual({ print: true });
+    expect(normalizeDiagnosticsConfig(false)).toEqual({ print: false });
+    expect(normalizeDiagnosticsConfig({ file: "report.json" })).toEqual({
+      print: true,
+      file: "report.json",
+    });
+  });
+
+  it("should total entries and flatten failures", () => {
+    const report = createReport();
+
+    expect(report.totalEntries).toBe(9);
+    expect(report.failures).toEqual([
+      {
+        filePath: "posts/broken.qmd",
+        phase: "validate",
+        message: "title: Required",
+      },
+    ]);
+  });
+
+  it("should format an aligned table", () => {
+    const lines = formatDiagnosticsTable(createReport()).split("\n");
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^Listing\s+Matched\s+Parsed\s+Filtered/);
+    expect(lines[1]).toMatch(/^blog-posts\s+12\s+12\s+2\s+1\s/);
+    expect(lines[2]).toMatch(/^featured\s+1\s+0\s/);
+    expect(lines[1]!.endsWith("41ms")).toBe(true);
+    expect(lines[1]!.length).toBe(lines[0]!.length);
+  });
+
+  it("should write the report as JSON", async () => {
+    const file = join(testDir, "reports", "quarto-loader-report.json");
+    await writeDiagnosticsReport(createReport(), file);
+
+    const written = JSON.parse(await readFile(file, "utf-8"));
+    expect(written.listings[0].listing).toBe("blog-posts");
+    expect(written.failures).toHaveLength(1);
+  });
+});
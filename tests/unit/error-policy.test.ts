@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { join } from "path";
+import { ErrorCollector } from "../../src/utils/error-policy.js";
+import { AggregatedLoadError } from "../../src/utils/errors.js";
+
+describe("ErrorCollector", () => {
+  const quartoRoot = join(process.cwd(), "quarto");
+  const filePath = join(quartoRoot, "posts", "post.qmd");
+
+  const createLogger = () => {
+    const errors: string[] = [];
+    return {
+      errors,
+      logger: {
+        debug: () => {},
+        info: () => {},
+        warn: () => {},
+        error: (message: string) => errors.push(message),
+      },
+    };
+  };
+
+  it("should rethrow with 'throw'", () => {
+    const { logger } = createLogger();
+    const collector = new ErrorCollector("throw", logger, quartoRoot);
+
+    expect(() =>
+      collector.handle(filePath, "parse", new Error("bad yaml")),
+    ).toThrow("bad yaml");
+  });
+
+  it("should log and continue with 'skip'", () => {
+    const { logger, errors } = createLogger();
+    const collector = new ErrorCollector("skip", logger, quartoRoot);
+
+    collector.handle(filePath, "validate", new Error("title: Required"));
+
+    expect(errors[0]).toContain(join("posts", "post.qmd"));
+    expect(collector.getFailures()).toHaveLength(1);
+    expect(() => collector.throwIfFailed()).not.toThrow();
+  });
+
+  it("should aggregate failures with 'collect'", () => {
+    const { logger } = createLogger();
+    const collector = new ErrorCollector("collect", logger, quartoRoot);
+
+    collector.handle(filePath, "parse", new Error("bad yaml"));
+    collector.handle(
+      join(quartoRoot, "posts", "other.qmd"),
+      "validate",
+      new Error("Entry validation failed\n  - title: Required"),
+    );
+
+    expect(() => collector.throwIfFailed()).toThrow(AggregatedLoadError);
+    try {
+      collector.throwIfFailed();
+    } catch (error) {
+      const aggregated = error as AggregatedLoadError;
+      expect(aggregated.failures.map((f) => f.phase)).toEqual([
+        "parse",
+        "validate",
+      ]);
+      expect(aggregated.message).toContain("Failed to load 2 file(s)");
+      expect(aggregated.message).toContain("\n      - title: Required");
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventEmitter } from "events";
+import { join, resolve } from "path";
+import {
+  QuartoFileWatcher,
+  type FileChangeEvent,
+} from "../../src/utils/file-watcher.js";
+
+describe("QuartoFileWatcher", () => {
+  const root = resolve("/project/quarto");
+
+  const setup = () => {
+    const astroWatcher = Object.assign(new EventEmitter(), { add: vi.fn() });
+    const watcher = new QuartoFileWatcher();
+    const events: FileChangeEvent[] = [];
+    watcher.on("change", (event: FileChangeEvent) => events.push(event));
+    watcher.watch(astroWatcher as any, { root, ignore: ["_site"] });
+    return { astroWatcher, watcher, events };
+  };
+
+  it("should emit absolute paths with their event type", () => {
+    const { astroWatcher, events } = setup();
+
+    astroWatcher.emit("add", join(root, "posts", "new.qmd"));
+    astroWatcher.emit("change", join(root, "posts", "post.qmd"));
+    astroWatcher.emit("unlink", join(root, "posts", "old.qmd"));
+
+    expect(astroWatcher.add).toHaveBeenCalledWith(root);
+    expect(events).toEqual([
+      { path: join(root, "posts", "new.qmd"), type: "add" },
+      { path: join(root, "posts", "post.qmd"), type: "change" },
+      { path: join(root, "posts", "old.qmd"), type: "unlink" },
+    ]);
+  });
+
+  it("should ignore files outside the root and in ignored directories", () => {
+    const { astroWatcher, events } = setup();
+
+    astroWatcher.emit("change", resolve("/project/src/pages/index.astro"));
+    astroWatcher.emit("change", join(root, "_site", "posts", "post.md"));
+    astroWatcher.emit("change", join(root, ".quarto", "xref", "abc"));
+    astroWatcher.emit("change", join(root, "_freeze", "posts", "post.json"));
+
+    expect(events).toEqual([]);
+  });
+
+  it("should detach its listeners when stopped", () => {
+    const { astroWatcher, watcher, events } = setup();
+
+    watcher.stop();
+    astroWatcher.emit("change", join(root, "posts", "post.qmd"));
+
+    expect(watcher.isWatching()).toBe(false);
+    expect(astroWatcher.listenerCount("change")).toBe(0);
+    expect(events).toEqual([]);
+  });
+});
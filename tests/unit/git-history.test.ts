@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "child_process";
+import { writeFile, mkdir, rm } from "fs/promises";
+import { join } from "path";
+import {
+  applyGitHistory,
+  normalizeGitDatesConfig,
+  parseGitLog,
+  readGitHistory,
+} from "../../src/utils/git-history.js";
+
+describe("git history", () => {
+  describe("normalizeGitDatesConfig", () => {
+    it("should only fill the modification date for true", () => {
+      expect(normalizeGitDatesConfig(true)).toEqual({
+        enabled: true,
+        modified: true,
+        created: false,
+        contributors: false,
+      });
+      expect(normalizeGitDatesConfig(undefined).enabled).toBe(false);
+    });
+
+    it("should enable the requested fields for an object", () => {
+      expect(
+        normalizeGitDatesConfig({ created: true, contributors: true }),
+      ).toEqual({
+        enabled: true,
+        modified: true,
+        created: true,
+        contributors: true,
+      });
+    });
+  });
+
+  describe("parseGitLog", () => {
+    it("should collect dates and contributors per file", () => {
+      const output = [
+        "",
+        "2025-03-01T10:00:00+01:00\x1fBob\n\nposts/a.qmd\nposts/b.qmd\n",
+        "2025-02-01T10:00:00+01:00\x1fAnn\n\nposts/a.qmd\n",
+        "2025-01-01T10:00:00+01:00\x1fBob\n\nposts/a.qmd\n",
+      ].join("\x1e");
+
+      const histories = parseGitLog(output, "/project");
+
+      expect(histories.get("/project/posts/a.qmd")).toEqual({
+        created: new Date("2025-01-01T09:00:00Z"),
+        modified: new Date("2025-03-01T09:00:00Z"),
+        contributors: ["Bob", "Ann"],
+      });
+      expect(histories.get("/project/posts/b.qmd")?.contributors).toEqual([
+        "Bob",
+      ]);
+    });
+  });
+
+  describe("applyGitHistory", () => {
+    const history = {
+      created: new Date("2025-01-01T00:00:00Z"),
+      modified: new Date("2025-03-01T00:00:00Z"),
+      contributors: ["Ann"],
+    };
+
+    it("should only fill fields the frontmatter leaves out", () => {
+      const options = normalizeGitDatesConfig({
+        created: true,
+        contributors: true,
+      });
+      const edited = new Date("2025-02-01T00:00:00Z");
+
+      expect(
+        applyGitHistory({ "date-modified": edited }, history, options),
+      ).toEqual({
+        "date-modified": edited,
+        "date-created": history.created,
+        contributors: ["Ann"],
+      });
+    });
+
+    it("should leave files without history unchanged", () => {
+      const metadata = { title: "Post" };
+      expect(
+        applyGitHistory(metadata, undefined, normalizeGitDatesConfig(true)),
+      ).toBe(metadata);
+    });
+  });
+
+  describe("readGitHistory", () => {
+    const testDir = join(process.cwd(), "test-output-git-history");
+    const quartoRoot = join(testDir, "quarto");
+
+    const commit = (author: string, date: string) => {
+      execFileSync("git", ["add", "-A"], { cwd: testDir });
+      execFileSync(
+        "git",
+        ["-c", "commit.gpgsign=false", "commit", "-q", "-m", "Update"],
+        {
+          cwd: testDir,
+          env: {
+            ...process.env,
+            GIT_AUTHOR_NAME: author,
+            GIT_AUTHOR_EMAIL: "author@example.com",
+            GIT_AUTHOR_DATE: date,
+            GIT_COMMITTER_NAME: author,
+            GIT_COMMITTER_EMAIL: "author@example.com",
+            GIT_COMMITTER_DATE: date,
+          },
+        },
+      );
+    };
+
+    beforeEach(async () => {
+      await mkdir(join(quartoRoot, "posts"), { recursive: true });
+      execFileSync("git", ["init", "-q"], { cwd: testDir });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it("should read the history of .qmd files under the root", async () => {
+      const post = join(quartoRoot, "posts", "post.qmd");
+      await writeFile(post, "---\ntitle: Post\n---\n");
+      await writeFile(join(testDir, "outside.qmd"), "---\ntitle: Out\n---\n");
+      commit("Ann", "2025-01-01T12:00:00Z");
+      await writeFile(post, "---\ntitle: Post, edited\n---\n");
+      commit("Bob", "2025-02-01T12:00:00Z");
+
+      const histories = await readGitHistory(quartoRoot);
+
+      expect([...histories.keys()]).toEqual([post]);
+      expect(histories.get(post)).toEqual({
+        created: new Date("2025-01-01T12:00:00Z"),
+        modified: new Date("2025-02-01T12:00:00Z"),
+        contributors: ["Ann", "Bob"],
+      });
+    });
+  });
+});
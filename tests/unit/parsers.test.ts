@@ -2,20 +2,57 @@
  * Unit tests for parser modules
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
+import { stat } from "fs/promises";
+import { join } from "path";
 import {
   extractMetadata,
   normalizeDate,
+  parseQmdContent,
+  locateFrontmatterKey,
 } from "../../src/parsers/qmd-frontmatter.js";
 import {
   applyFieldMappings,
   generateSlug,
+  generatePathId,
+  generateEntryId,
   inheritListingDefaults,
   mergeFieldMappings,
+  resolveIdCollisions,
+  normalizeMetadata,
+  applyPermalinkPattern,
 } from "../../src/parsers/metadata-normalizer.js";
-import { extractListings } from "../../src/parsers/quarto-yaml.js";
+import {
+  assertTimeZone,
+  formatDate,
+  resolveDateFields,
+  resolveDateValue,
+} from "../../src/parsers/dates.js";
+import { mergeMetadata } from "../../src/parsers/project-metadata.js";
+import {
+  normalizeAuthors,
+  flattenAuthorNames,
+} from "../../src/parsers/authors.js";
+import { authorSchema } from "../../src/schema/common-fields.js";
+import type { QuartoAuthor } from "../../src/types/quarto.js";
+import {
+  extractListings,
+  selectListings,
+  resolveProfiles,
+} from "../../src/parsers/quarto-yaml.js";
+import {
+  resolveListingOptions,
+  buildListingMembership,
+  mergeListingDefaults,
+} from "../../src/parsers/listing-config.js";
 import { DEFAULT_FIELD_MAPPINGS } from "../../src/types/loader-config.js";
-import { FieldMappingConflictError } from "../../src/utils/errors.js";
+import {
+  FieldMappingConflictError,
+  EntryIdCollisionError,
+  ListingNotFoundError,
+  QmdParseError,
+  QuartoConfigError,
+} from "../../src/utils/errors.js";
 
 describe("QMD Frontmatter Parser", () => {
   describe("extractMetadata", () => {
@@ -160,6 +197,185 @@ describe("Metadata Normalizer", () => {
     });
   });
 
+  describe("generatePathId", () => {
+    it("should keep directories and date prefixes", () => {
+      const id = generatePathId(
+        "/site/quarto/posts/2025-11-24-Welcome.qmd",
+        "/site/quarto",
+      );
+      expect(id).toBe("posts/2025-11-24-welcome");
+    });
+  });
+
+  describe("generateEntryId", () => {
+    const options = {
+      basePath: "/q",
+      outputDir: "/q/_site",
+      fieldMappings: DEFAULT_FIELD_MAPPINGS,
+    };
+
+    it("should use the filename by default", () => {
+      const result = generateEntryId("/q/posts/2024/intro.qmd", {}, options);
+      expect(result).toEqual({ id: "intro", slug: "intro" });
+    });
+
+    it("should preserve directories with the path strategy", () => {
+      const result = generateEntryId(
+        "/q/posts/2024/intro.qmd",
+        {},
+        {
+          ...options,
+          id: { strategy: "path" },
+        },
+      );
+      expect(result.id).toBe("posts/2024/intro");
+    });
+
+    it("should treat foo/index.qmd as foo", () => {
+      expect(generateEntryId("/q/talks/foo/index.qmd", {}, options).id).toBe(
+        "foo",
+      );
+      expect(
+        generateEntryId(
+          "/q/talks/foo/index.qmd",
+          {},
+          {
+            ...options,
+            id: { strategy: "path" },
+          },
+        ).id,
+      ).toBe("talks/foo");
+    });
+
+    it("should use 'index' for the root index.qmd", () => {
+      expect(generateEntryId("/q/index.qmd", {}, options).id).toBe("index");
+      expect(
+        generateEntryId(
+          "/q/index.qmd",
+          {},
+          { ...options, id: { strategy: "path" } },
+        ).id,
+      ).toBe("index");
+    });
+
+    it("should honour a slug field in frontmatter", () => {
+      const result = generateEntryId(
+        "/q/posts/intro.qmd",
+        { slug: "hello-world" },
+        { ...options, id: { strategy: "path" } },
+      );
+      expect(result).toEqual({ id: "posts/hello-world", slug: "hello-world" });
+    });
+
+    it("should build IDs from permalink patterns", () => {
+      const result = generateEntryId(
+        "/q/posts/2024-05-02-intro.qmd",
+        { pubDate: new Date("2024-05-02") },
+        { ...options, id: { pattern: "/:year/:month/:slug" } },
+      );
+      expect(result.id).toBe("2024/05/intro");
+    });
+
+    it("should drop date segments when the date is missing", () => {
+      const result = generateEntryId(
+        "/q/posts/intro.qmd",
+        {},
+        { ...options, id: { pattern: "/:year/:month/:slug" } },
+      );
+      expect(result.id).toBe("intro");
+    });
+  });
+
+  describe("resolveIdCollisions", () => {
+    const candidates = () => [
+      { id: "welcome", filePath: "/q/posts/welcome.qmd" },
+      { id: "welcome", filePath: "/q/posts/2025-11-24-welcome.qmd" },
+      { id: "other", filePath: "/q/posts/other.qmd" },
+    ];
+
+    it("should throw listing both source files", () => {
+      expect(() => resolveIdCollisions(candidates(), "error", "/q")).toThrow(
+        EntryIdCollisionError,
+      );
+
+      try {
+        resolveIdCollisions(candidates(), "error", "/q");
+      } catch (error) {
+        expect((error as EntryIdCollisionError).filePaths).toEqual([
+          "/q/posts/2025-11-24-welcome.qmd",
+          "/q/posts/welcome.qmd",
+        ]);
+      }
+    });
+
+    it("should keep the date prefix", () => {
+      const ids = resolveIdCollisions(candidates(), "keep-date", "/q").map(
+        (c) => c.id,
+      );
+      expect(ids).toEqual(["welcome", "2025-11-24-welcome", "other"]);
+    });
+
+    it("should warn when keep-date falls back to suffixes", () => {
+      const warn = vi.fn();
+      const ids = resolveIdCollisions(
+        [
+          { id: "intro", filePath: "/q/posts/intro.qmd" },
+          { id: "intro", filePath: "/q/talks/intro.qmd" },
+        ],
+        "keep-date",
+        "/q",
+        new Map(),
+        { warn },
+      ).map((c) => c.id);
+
+      expect(ids).toEqual(["intro", "intro-2"]);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]![0]).toContain("talks/intro.qmd");
+      expect(warn.mock.calls[0]![0]).toContain("posts/intro.qmd");
+    });
+
+    it("should append numeric suffixes", () => {
+      const ids = resolveIdCollisions(candidates(), "suffix", "/q").map(
+        (c) => c.id,
+      );
+      expect(ids).toEqual(["welcome-2", "welcome", "other"]);
+    });
+
+    it("should fall back to path-based IDs", () => {
+      const ids = resolveIdCollisions(candidates(), "path", "/q").map(
+        (c) => c.id,
+      );
+      expect(ids).toEqual([
+        "posts/welcome",
+        "posts/2025-11-24-welcome",
+        "other",
+      ]);
+    });
+
+    it("should detect collisions with earlier listings", () => {
+      const claimed = new Map([["other", "/q/talks/other.qmd"]]);
+      expect(() =>
+        resolveIdCollisions(
+          [{ id: "other", filePath: "/q/posts/other.qmd" }],
+          "error",
+          "/q",
+          claimed,
+        ),
+      ).toThrow(EntryIdCollisionError);
+    });
+
+    it("should not treat the same file in two listings as a collision", () => {
+      const claimed = new Map([["other", "/q/posts/other.qmd"]]);
+      const result = resolveIdCollisions(
+        [{ id: "other", filePath: "/q/posts/other.qmd" }],
+        "error",
+        "/q",
+        claimed,
+      );
+      expect(result[0]?.id).toBe("other");
+    });
+  });
+
   describe("inheritListingDefaults", () => {
     it("should inherit defaults for undefined fields", () => {
       const metadata = { title: "Test" };
@@ -234,4 +450,456 @@ describe("Quarto YAML Parser", () => {
       expect(listings).toHaveLength(0);
     });
   });
+
+  describe("selectListings", () => {
+    const config = {
+      listing: [
+        { id: "posts", contents: "posts/*.qmd" },
+        { id: "docs", contents: "docs/*.qmd" },
+      ],
+    };
+
+    it("should select every listing by default", () => {
+      expect(selectListings(config, undefined)).toHaveLength(2);
+      expect(selectListings(config, "all")).toHaveLength(2);
+    });
+
+    it("should select listings in the requested order", () => {
+      const listings = selectListings(config, ["docs", "posts"]);
+      expect(listings.map((l) => l.id)).toEqual(["docs", "posts"]);
+    });
+
+    it("should throw for an unknown listing", () => {
+      expect(() => selectListings(config, "missing")).toThrow(
+        ListingNotFoundError,
+      );
+    });
+  });
+
+  describe("resolveProfiles", () => {
+    it("should split the requested profiles", () => {
+      expect(resolveProfiles({}, "production, preview")).toEqual([
+        "production",
+        "preview",
+      ]);
+    });
+
+    it("should fall back to profile.default", () => {
+      const config = { profile: { default: "development" } };
+      expect(resolveProfiles(config)).toEqual(["development"]);
+      expect(resolveProfiles(config, "production")).toEqual(["production"]);
+    });
+
+    it("should activate the first profile of each unmatched group", () => {
+      const config = {
+        profile: {
+          group: [
+            ["basic", "advanced"],
+            ["light", "dark"],
+          ],
+        },
+      };
+      expect(resolveProfiles(config, "dark")).toEqual(["dark", "basic"]);
+      expect(resolveProfiles({ profile: { group: ["a", "b"] } })).toEqual([
+        "a",
+      ]);
+    });
+  });
+});
+
+describe("Listing Config", () => {
+  describe("resolveListingOptions", () => {
+    const filter = () => true;
+    const talksFilter = () => false;
+
+    it("should fall back to top-level options", () => {
+      const options = resolveListingOptions(
+        { quartoRoot: ".", filter, fieldMappings: { date: "publishedAt" } },
+        "posts",
+      );
+
+      expect(options.filter).toBe(filter);
+      expect(options.fieldMappings.date).toBe("publishedAt");
+      expect(options.fieldMappings.image).toBe("heroImage");
+    });
+
+    it("should apply overrides for the matching listing", () => {
+      const options = resolveListingOptions(
+        {
+          quartoRoot: ".",
+          filter,
+          fieldMappings: { date: "publishedAt", image: "cover" },
+          perListing: {
+            talks: { filter: talksFilter, fieldMappings: { date: "talkDate" } },
+          },
+        },
+        "talks",
+      );
+
+      expect(options.filter).toBe(talksFilter);
+      expect(options.fieldMappings.date).toBe("talkDate");
+      expect(options.fieldMappings.image).toBe("cover");
+    });
+  });
+
+  describe("buildListingMembership", () => {
+    it("should list every listing a file belongs to in order", () => {
+      const membership = buildListingMembership([
+        {
+          listing: { id: "featured", contents: "" },
+          files: ["/q/a.qmd"],
+          defaults: {},
+        },
+        {
+          listing: { id: "posts", contents: "" },
+          files: ["/q/a.qmd", "/q/b.qmd"],
+          defaults: {},
+        },
+      ]);
+
+      expect(membership.get("/q/a.qmd")).toEqual(["featured", "posts"]);
+      expect(membership.get("/q/b.qmd")).toEqual(["posts"]);
+    });
+  });
+
+  describe("mergeListingDefaults", () => {
+    it("should give earlier listings precedence", () => {
+      const merged = mergeListingDefaults([
+        { author: "Featured" },
+        { author: "Posts", image: "default.png" },
+      ]);
+
+      expect(merged).toEqual({ author: "Featured", image: "default.png" });
+    });
+  });
+});
+
+describe("Frontmatter Source Positions", () => {
+  const source = [
+    "---",
+    'title: "Post"',
+    "date: not-a-date",
+    "author:",
+    "  - name: Jane Doe",
+    "    orcid: 0000-0000",
+    "---",
+    "",
+    "title: body text",
+  ].join("\n");
+
+  it("should locate top-level keys", () => {
+    expect(locateFrontmatterKey(source, ["date"])).toEqual({
+      line: 3,
+      column: 1,
+    });
+  });
+
+  it("should locate nested keys", () => {
+    expect(locateFrontmatterKey(source, ["author", 0, "orcid"])).toEqual({
+      line: 6,
+      column: 5,
+    });
+  });
+
+  it("should fall back to the deepest existing key", () => {
+    expect(locateFrontmatterKey(source, ["author", 0, "email"])).toEqual({
+      line: 5,
+      column: 5,
+    });
+  });
+
+  it("should return undefined for keys outside the frontmatter", () => {
+    expect(locateFrontmatterKey(source, ["pubDate"])).toBeUndefined();
+    expect(locateFrontmatterKey("# No frontmatter", ["title"])).toBeUndefined();
+  });
+
+  it("should report the line of YAML syntax errors", () => {
+    const broken = "---\ntitle: ok\nfoo: : bar\n---\n";
+
+    try {
+      parseQmdContent(broken, "posts/broken.qmd");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(QmdParseError);
+      expect((error as QmdParseError).lineNumber).toBe(3);
+      expect((error as QmdParseError).message).toContain(
+        "posts/broken.qmd at line 3",
+      );
+    }
+  });
+});
+
+describe("Author Normalization", () => {
+  it("should keep plain names as strings", () => {
+    expect(normalizeAuthors("Ada Lovelace")).toBe("Ada Lovelace");
+    expect(normalizeAuthors(["Ada", "Grace"])).toEqual(["Ada", "Grace"]);
+  });
+
+  it("should normalize structured authors", () => {
+    const authors = normalizeAuthors([
+      {
+        name: { given: "Norah", family: "Jones" },
+        email: "norah@example.edu",
+        orcid: "https://orcid.org/0000-0001-2345-6789",
+        attributes: { corresponding: true },
+        roles: ["conceptualization", { "writing-review-editing": "lead" }],
+      },
+      "Bill Gates",
+    ]);
+
+    expect(authors).toEqual([
+      {
+        name: "Norah Jones",
+        given: "Norah",
+        family: "Jones",
+        email: "norah@example.edu",
+        orcid: "0000-0001-2345-6789",
+        corresponding: true,
+        equalContributor: false,
+        roles: [
+          { role: "Conceptualization" },
+          { role: "Writing – review & editing", degree: "lead" },
+        ],
+        affiliations: [],
+      },
+      {
+        name: "Bill Gates",
+        corresponding: false,
+        equalContributor: false,
+        roles: [],
+        affiliations: [],
+      },
+    ]);
+  });
+
+  it("should resolve affiliation references by id", () => {
+    const authors = normalizeAuthors(
+      [
+        { name: "Norah Jones", affiliations: [{ ref: "cmu" }, "Example Lab"] },
+        {
+          name: "Ann Lee",
+          affiliations: [{ id: "mit", name: "MIT", "postal-code": "02139" }],
+        },
+        { name: "Bo Chen", affiliations: [{ ref: "mit" }, { ref: "unknown" }] },
+      ],
+      [{ id: "cmu", name: "Carnegie Mellon University", state: "PA" }],
+    ) as QuartoAuthor[];
+
+    expect(authors[0]!.affiliations).toEqual([
+      { id: "cmu", name: "Carnegie Mellon University", region: "PA" },
+      { name: "Example Lab" },
+    ]);
+    expect(authors[2]!.affiliations).toEqual([
+      { id: "mit", name: "MIT", postalCode: "02139" },
+      { id: "unknown", name: "unknown" },
+    ]);
+  });
+
+  it("should keep roles outside CRediT as given", () => {
+    const [author] = normalizeAuthors([
+      { name: "Ada", role: { "Field work": "Supporting" } },
+    ]) as QuartoAuthor[];
+
+    expect(author!.roles).toEqual([
+      { role: "Field work", degree: "supporting" },
+    ]);
+  });
+
+  it("should normalize structured authors in extractMetadata", () => {
+    const metadata = extractMetadata({
+      title: "Paper",
+      author: [{ name: "Norah Jones", affiliations: [{ ref: "cmu" }] }],
+      affiliations: [{ id: "cmu", name: "CMU" }],
+    });
+
+    expect((metadata.author as QuartoAuthor[])[0]!.affiliations).toEqual([
+      { id: "cmu", name: "CMU" },
+    ]);
+    expect(authorSchema.array().safeParse(metadata.author).success).toBe(true);
+  });
+
+  it("should flatten structured authors to names when configured", () => {
+    const entry = normalizeMetadata(
+      {
+        title: "Paper",
+        author: normalizeAuthors([{ name: "Norah Jones" }, "Bill Gates"]),
+      },
+      "/project/papers/paper.qmd",
+      {
+        basePath: "/project",
+        outputDir: "/project/_site",
+        fieldMappings: DEFAULT_FIELD_MAPPINGS,
+        flattenAuthors: true,
+      },
+    );
+
+    expect(entry.data.author).toEqual(["Norah Jones", "Bill Gates"]);
+    expect(flattenAuthorNames("Ada")).toBe("Ada");
+  });
+});
+
+describe("Quarto Dates", () => {
+  const now = new Date("2025-03-10T02:30:00Z");
+
+  it("should resolve 'today' and 'now'", () => {
+    expect(resolveDateValue("now", { now })).toBe(now);
+    expect(resolveDateValue("today", { now })).toEqual(
+      new Date("2025-03-10T00:00:00Z"),
+    );
+    // Still the previous day in New York
+    expect(
+      resolveDateValue("today", { now, timezone: "America/New_York" }),
+    ).toEqual(new Date("2025-03-09T05:00:00Z"));
+  });
+
+  it("should read dates without a time in the configured time zone", () => {
+    const timezone = "America/New_York";
+
+    expect(resolveDateValue("2025-11-24", { timezone })).toEqual(
+      new Date("2025-11-24T05:00:00Z"),
+    );
+    expect(resolveDateValue("2025-11-24", { timezone: "Asia/Tokyo" })).toEqual(
+      new Date("2025-11-23T15:00:00Z"),
+    );
+    expect(resolveDateValue("2025-11-24", {})).toEqual(
+      new Date("2025-11-24T00:00:00Z"),
+    );
+  });
+
+  it("should leave dates with a time and other values unchanged", () => {
+    const date = new Date("2025-11-24T10:15:00Z");
+    const options = { timezone: "America/New_York" };
+
+    expect(resolveDateValue(date, options)).toBe(date);
+    // An explicit UTC midnight is a time, not a bare date
+    const midnight = new Date("2025-11-24T00:00:00Z");
+    expect(resolveDateValue(midnight, options)).toBe(midnight);
+    expect(resolveDateValue("sometime", options)).toBe("sometime");
+  });
+
+  it("should keep unquoted dates without a time as text", () => {
+    const { frontmatter } = parseQmdContent(
+      "---\ndate: 2025-11-24\ndate-modified: 2025-11-24T00:00:00Z\n---\n",
+      "post.qmd",
+    );
+
+    expect(frontmatter.date).toBe("2025-11-24");
+    expect(frontmatter["date-modified"]).toEqual(
+      new Date("2025-11-24T00:00:00Z"),
+    );
+    expect(
+      resolveDateValue(frontmatter.date, { timezone: "America/New_York" }),
+    ).toEqual(new Date("2025-11-24T05:00:00Z"));
+  });
+
+  it("should resolve 'last-modified' to the file's modification time", async () => {
+    const filePath = join(__dirname, "parsers.test.ts");
+    const metadata = await resolveDateFields(
+      { title: "Post", date: "today", "date-modified": "last-modified" },
+      filePath,
+      { now },
+    );
+
+    expect(metadata["date-modified"]).toEqual((await stat(filePath)).mtime);
+    expect(metadata.date).toEqual(new Date("2025-03-10T00:00:00Z"));
+  });
+
+  it("should format dates like Quarto's date-format", () => {
+    const date = new Date("2025-11-24T05:00:00Z");
+    const timezone = "America/New_York";
+
+    expect(formatDate(date, "MMMM D, YYYY", { timezone })).toBe(
+      "November 24, 2025",
+    );
+    expect(formatDate(date, "ddd DD/MM/YY [at home]", { timezone })).toBe(
+      "Mon 24/11/25 at home",
+    );
+    expect(formatDate(date, "iso", { timezone })).toBe("2025-11-24");
+    expect(formatDate(date, "medium", { timezone })).toBe("Nov 24, 2025");
+    expect(formatDate(date, "long", { timezone, locale: "fr-FR" })).toBe(
+      "24 novembre 2025",
+    );
+  });
+
+  it("should use the time zone for permalink date tokens", () => {
+    const values = {
+      slug: "post",
+      path: "",
+      date: new Date("2025-11-23T15:00:00Z"),
+    };
+
+    expect(applyPermalinkPattern(":year/:month/:day/:slug", values)).toBe(
+      "2025/11/23/post",
+    );
+    expect(
+      applyPermalinkPattern(":year/:month/:day/:slug", values, "Asia/Tokyo"),
+    ).toBe("2025/11/24/post");
+  });
+
+  it("should add the formatted date under its mapped name", () => {
+    const entry = normalizeMetadata(
+      {
+        title: "Post",
+        date: new Date("2025-11-24T05:00:00Z"),
+        "date-format": "MMM D, YYYY",
+      },
+      "/project/posts/post.qmd",
+      {
+        basePath: "/project",
+        outputDir: "/project/_site",
+        fieldMappings: DEFAULT_FIELD_MAPPINGS,
+        timezone: "America/New_York",
+      },
+    );
+
+    expect(entry.data.pubDateFormatted).toBe("Nov 24, 2025");
+  });
+
+  it("should reject unknown time zones", () => {
+    expect(() => assertTimeZone("Mars/Olympus_Mons")).toThrow(
+      QuartoConfigError,
+    );
+  });
+});
+
+describe("Project Metadata", () => {
+  describe("mergeMetadata", () => {
+    it("should let later layers replace scalars", () => {
+      expect(
+        mergeMetadata({ author: "Team", lang: "en" }, { author: "Ann" }),
+      ).toEqual({ author: "Ann", lang: "en" });
+    });
+
+    it("should deep merge objects", () => {
+      expect(
+        mergeMetadata(
+          { citation: { type: "article", publisher: "Lab" } },
+          { citation: { type: "report" } },
+        ),
+      ).toEqual({ citation: { type: "report", publisher: "Lab" } });
+    });
+
+    it("should concatenate arrays keeping the last duplicate", () => {
+      expect(
+        mergeMetadata(
+          { categories: ["Blog", "News"] },
+          { categories: ["News", "Astro"] },
+        ),
+      ).toEqual({ categories: ["Blog", "News", "Astro"] });
+    });
+
+    it("should join a scalar with an array", () => {
+      expect(
+        mergeMetadata({ categories: "Blog" }, { categories: ["Astro"] }),
+      ).toEqual({ categories: ["Blog", "Astro"] });
+    });
+
+    it("should skip undefined values and not mutate layers", () => {
+      const base = { tags: ["a"], nested: { x: 1 } };
+      const merged = mergeMetadata(base, { tags: undefined, nested: { y: 2 } });
+
+      expect(merged).toEqual({ tags: ["a"], nested: { x: 1, y: 2 } });
+      expect(base).toEqual({ tags: ["a"], nested: { x: 1 } });
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  PersistentCache,
+  createConfigFingerprint,
+  deserializeCacheValue,
+  serializeCacheValue,
+} from "../../src/utils/persistent-cache.js";
+
+describe("persistent cache", () => {
+  const createMeta = () => {
+    const values = new Map<string, string>();
+    return {
+      values,
+      get: (key: string) => values.get(key),
+      set: (key: string, value: string) => {
+        values.set(key, value);
+      },
+      has: (key: string) => values.has(key),
+      delete: (key: string) => {
+        values.delete(key);
+      },
+    };
+  };
+
+  describe("serialization", () => {
+    it("should restore dates after a round trip", () => {
+      const value = {
+        date: new Date("2025-11-24T00:00:00Z"),
+        nested: [{ updated: new Date("2025-12-01T00:00:00Z") }],
+        title: "Post",
+      };
+
+      const restored = deserializeCacheValue<typeof value>(
+        serializeCacheValue(value),
+      );
+
+      expect(restored.date).toBeInstanceOf(Date);
+      expect(restored.date.toISOString()).toBe("2025-11-24T00:00:00.000Z");
+      expect(restored.nested[0]!.updated).toBeInstanceOf(Date);
+      expect(restored.title).toBe("Post");
+    });
+  });
+
+  describe("createConfigFingerprint", () => {
+    const base = { quartoRoot: "./quarto", listings: "blog" };
+
+    it("should change when field mappings change", () => {
+      expect(createConfigFingerprint(base)).toBe(createConfigFingerprint(base));
+      expect(
+        createConfigFingerprint({
+          ...base,
+          fieldMappings: { date: "publishedAt" },
+        }),
+      ).not.toBe(createConfigFingerprint(base));
+    });
+
+    it("should change when the schema changes", () => {
+      const withVenue = {
+        ...base,
+        schema: { extend: z.object({ venue: z.string() }) },
+      };
+      const withOptionalVenue = {
+        ...base,
+        schema: { extend: z.object({ venue: z.string().optional() }) },
+      };
+
+      expect(createConfigFingerprint(withVenue)).not.toBe(
+        createConfigFingerprint(withOptionalVenue),
+      );
+    });
+
+    it("should not depend on evaluated default values", () => {
+      const createConfig = (now: Date) => ({
+        ...base,
+        schema: { extend: z.object({ checked: z.date().default(now) }) },
+      });
+
+      expect(createConfigFingerprint(createConfig(new Date(0)))).toBe(
+        createConfigFingerprint(createConfig(new Date(1000))),
+      );
+    });
+
+    it("should ignore runtime options", () => {
+      expect(
+        createConfigFingerprint({ ...base, parallel: false, autoRender: true }),
+      ).toBe(createConfigFingerprint(base));
+    });
+  });
+
+  describe("PersistentCache", () => {
+    it("should only return values stored for the same hash", () => {
+      const cache = new PersistentCache(createMeta(), "config");
+      cache.set("frontmatter", "posts/a.qmd", "hash-1", { title: "A" });
+
+      expect(cache.get("frontmatter", "posts/a.qmd", "hash-1")).toEqual({
+        title: "A",
+      });
+      expect(cache.get("frontmatter", "posts/a.qmd", "hash-2")).toBeUndefined();
+      expect(cache.get("body", "posts/a.qmd", "hash-1")).toBeUndefined();
+    });
+
+    it("should ignore records from another configuration", () => {
+      const meta = createMeta();
+      new PersistentCache(meta, "old").set("body", "a.md", "hash", "Body");
+
+      expect(
+        new PersistentCache(meta, "new").get("body", "a.md", "hash"),
+      ).toBeUndefined();
+    });
+
+    it("should compute and store missing values", () => {
+      const cache = new PersistentCache(createMeta(), "config");
+      let calls = 0;
+      const compute = () => {
+        calls++;
+        return "Body";
+      };
+
+      expect(cache.getOrCompute("body", "a.md", "hash", compute)).toBe("Body");
+      expect(cache.getOrCompute("body", "a.md", "hash", compute)).toBe("Body");
+      expect(calls).toBe(1);
+    });
+
+    it("should prune records of files the previous load cached", () => {
+      const meta = createMeta();
+      const first = new PersistentCache(meta, "config");
+      first.set("frontmatter", "posts/a.qmd", "hash", { title: "A" });
+      first.set("frontmatter", "posts/b.qmd", "hash", { title: "B" });
+      first.set("body", "_site/posts/b.md", "hash", "Body");
+      expect(
+        first.prune(["posts/a.qmd", "posts/b.qmd", "_site/posts/b.md"]),
+      ).toEqual([]);
+
+      const second = new PersistentCache(meta, "config");
+      expect(second.prune(["posts/a.qmd"])).toEqual([
+        "_site/posts/b.md",
+        "posts/b.qmd",
+      ]);
+      expect(meta.has("cache:frontmatter:posts/a.qmd")).toBe(true);
+      expect(meta.has("cache:frontmatter:posts/b.qmd")).toBe(false);
+      expect(meta.has("cache:body:_site/posts/b.md")).toBe(false);
+    });
+  });
+});
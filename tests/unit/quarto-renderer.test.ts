@@ -1,5 +1,10 @@
-import { describe, it, expect, vi } from "vitest";
-import { normalizeAutoRenderConfig } from "../../src/utils/quarto-renderer.js";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeFile, readFile, mkdir, rm, chmod } from "fs/promises";
+import { join } from "path";
+import {
+  normalizeAutoRenderConfig,
+  renderQuartoFiles,
+} from "../../src/utils/quarto-renderer.js";
 
 describe("quarto-renderer", () => {
   describe("normalizeAutoRenderConfig", () => {
@@ -45,6 +50,22 @@ describe("quarto-renderer", () => {
       expect(result.format).toBe("html");
     });
 
+    it("should default to whole-project rendering", () => {
+      const result = normalizeAutoRenderConfig(true);
+      expect(result.incremental).toBe(false);
+      expect(result.concurrency).toBe(2);
+    });
+
+    it("should accept incremental options", () => {
+      const result = normalizeAutoRenderConfig({
+        enabled: true,
+        incremental: true,
+        concurrency: 4,
+      });
+      expect(result.incremental).toBe(true);
+      expect(result.concurrency).toBe(4);
+    });
+
     it("should allow disabling via object config", () => {
       const result = normalizeAutoRenderConfig({
         enabled: false,
@@ -52,4 +73,60 @@ describe("quarto-renderer", () => {
       expect(result.enabled).toBe(false);
     });
   });
+
+  describe.skipIf(process.platform === "win32")("renderQuartoFiles", () => {
+    const testDir = join(process.cwd(), "test-output-renderer");
+    const fakeQuarto = join(testDir, "fake-quarto");
+    const calls = join(testDir, "calls.log");
+
+    beforeEach(async () => {
+      await mkdir(join(testDir, "posts"), { recursive: true });
+      // Succeeds for --version, fails when asked to render "broken.qmd"
+      await writeFile(
+        fakeQuarto,
+        `#!/bin/sh\necho "$@" >> "${calls}"\ncase "$2" in *broken*) exit 1;; esac\nexit 0\n`,
+      );
+      await chmod(fakeQuarto, 0o755);
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it("should render each file and report per-file results", async () => {
+      const results = await renderQuartoFiles(
+        testDir,
+        [
+          join(testDir, "posts", "good.qmd"),
+          join(testDir, "posts", "broken.qmd"),
+        ],
+        { enabled: true, command: fakeQuarto, format: "gfm", concurrency: 2 },
+      );
+
+      expect(results.map((r) => r.success)).toEqual([true, false]);
+      expect(results[1]?.error?.message).toContain("posts/broken.qmd");
+
+      const log = await readFile(calls, "utf-8");
+      expect(log).toContain("render posts/good.qmd --to gfm");
+    });
+
+    it("should pass the profile to Quarto", async () => {
+      await renderQuartoFiles(testDir, [join(testDir, "posts", "good.qmd")], {
+        enabled: true,
+        command: fakeQuarto,
+        profile: "production",
+      });
+
+      const log = await readFile(calls, "utf-8");
+      expect(log).toContain("render posts/good.qmd --profile production");
+    });
+
+    it("should not spawn Quarto when there is nothing to render", async () => {
+      const results = await renderQuartoFiles(testDir, [], {
+        enabled: true,
+        command: join(testDir, "missing-quarto"),
+      });
+      expect(results).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ReloadQueue } from "../../src/utils/reload-queue.js";
+
+describe("ReloadQueue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createQueue = () => {
+    const events: string[] = [];
+    const queue = new ReloadQueue({
+      delay: 100,
+      render: async (filePath) => {
+        events.push(`render:${filePath}`);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      },
+      reload: async (filePaths) => {
+        events.push(`reload:${filePaths.join(",")}`);
+      },
+      onError: (error, filePath) => {
+        events.push(`error:${filePath ?? ""}:${error.message}`);
+      },
+    });
+    return { queue, events };
+  };
+
+  it("should debounce rapid changes into one batch", async () => {
+    vi.useFakeTimers();
+    const { queue, events } = createQueue();
+
+    queue.schedule("/a.qmd", true);
+    await vi.advanceTimersByTimeAsync(50);
+    queue.schedule("/a.qmd", true);
+    queue.schedule("/b.qmd", false);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(events).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(events).toEqual(["render:/a.qmd", "reload:/a.qmd,/b.qmd"]);
+  });
+
+  it("should not overlap batches", async () => {
+    const { queue, events } = createQueue();
+
+    queue.schedule("/a.qmd", true);
+    const first = queue.flush();
+    queue.schedule("/b.qmd", true);
+    const second = queue.flush();
+    await Promise.all([first, second]);
+
+    expect(events).toEqual([
+      "render:/a.qmd",
+      "reload:/a.qmd",
+      "render:/b.qmd",
+      "reload:/b.qmd",
+    ]);
+    queue.clear();
+  });
+
+  it("should report render failures and still reload", async () => {
+    const events: string[] = [];
+    const queue = new ReloadQueue({
+      delay: 100,
+      render: async () => {
+        throw new Error("quarto failed");
+      },
+      reload: async () => {
+        events.push("reload");
+      },
+      onError: (error, filePath) => {
+        events.push(`error:${filePath}:${error.message}`);
+      },
+    });
+
+    queue.schedule("/a.qmd", true);
+    await queue.flush();
+
+    expect(events).toEqual(["error:/a.qmd:quarto failed", "reload"]);
+  });
+});
@@ -8,9 +8,20 @@ import {
   inferFieldType,
   generateSchema,
   applySchemaConfig,
+  mergeListingSchemas,
+  createListingSchema,
 } from "../../src/schema/generator.js";
-import { validateEntry } from "../../src/schema/validator.js";
-import { commonFields } from "../../src/schema/common-fields.js";
+import {
+  validateEntry,
+  validateEntryOrThrow,
+} from "../../src/schema/validator.js";
+import { ValidationError } from "../../src/utils/errors.js";
+import {
+  commonFields,
+  getMappedCommonFields,
+} from "../../src/schema/common-fields.js";
+import { createImageSchema } from "../../src/schema/image.js";
+import { DEFAULT_FIELD_MAPPINGS } from "../../src/types/loader-config.js";
 
 describe("Schema Generator", () => {
   describe("inferFieldType", () => {
@@ -53,6 +64,75 @@ describe("Schema Generator", () => {
       expect(result1.success).toBe(true);
       expect(result2.success).toBe(true);
     });
+
+    it("should infer nested objects", () => {
+      const schema = inferFieldType("venue", [
+        { name: "Hall A", city: "Paris" },
+        { name: "Hall B", city: "Lyon", capacity: 200 },
+      ]);
+
+      expect(schema.safeParse({ name: "Hall C", city: "Nice" }).success).toBe(
+        true,
+      );
+      expect(schema.safeParse({ name: "Hall C" }).success).toBe(false);
+      expect(
+        schema.safeParse({ name: "Hall C", city: "Nice", capacity: "big" })
+          .success,
+      ).toBe(false);
+    });
+
+    it("should infer array elements from every array", () => {
+      const schema = inferFieldType("links", [["a", 1], ["b"], [2]]);
+
+      expect(schema.safeParse(["c", 3]).success).toBe(true);
+      expect(schema.safeParse([true]).success).toBe(false);
+    });
+
+    it("should infer a union for mixed values", () => {
+      const schema = inferFieldType("editor", ["Ada", ["Ada", "Grace"]]);
+
+      expect(schema).toBeInstanceOf(z.ZodUnion);
+      expect(schema.safeParse("Grace").success).toBe(true);
+      expect(schema.safeParse(["Grace"]).success).toBe(true);
+      expect(schema.safeParse(3).success).toBe(false);
+    });
+
+    it("should make the type nullable for null values", () => {
+      const schema = inferFieldType("subtitle", ["A subtitle", null]);
+
+      expect(schema.safeParse(null).success).toBe(true);
+      expect(schema.safeParse("Another").success).toBe(true);
+    });
+
+    it("should infer enums for repeated values with enum 'auto'", () => {
+      const schema = inferFieldType(
+        "status",
+        ["draft", "final", "draft", "review"],
+        { enum: "auto" },
+      );
+
+      expect(schema).toBeInstanceOf(z.ZodEnum);
+      expect((schema as z.ZodEnum<[string]>).options).toEqual([
+        "draft",
+        "final",
+        "review",
+      ]);
+    });
+
+    it("should not infer enums for free text with enum 'auto'", () => {
+      const schema = inferFieldType("subtitle", ["One", "Two", "Three"], {
+        enum: "auto",
+      });
+      expect(schema).toBeInstanceOf(z.ZodString);
+    });
+
+    it("should infer enums for unique values with enum 'always'", () => {
+      const schema = inferFieldType("status", ["draft", "final"], {
+        enum: "always",
+      });
+      expect(schema.safeParse("final").success).toBe(true);
+      expect(schema.safeParse("review").success).toBe(false);
+    });
   });
 
   describe("generateSchema", () => {
@@ -82,6 +162,19 @@ describe("Schema Generator", () => {
       expect(schema.shape.level).toBe(customSchema);
     });
 
+    it("should infer enums for the fields listed in options.enums", () => {
+      const docs = [
+        { title: "Post 1", status: "draft", level: "beginner" },
+        { title: "Post 2", status: "final", level: "advanced" },
+      ];
+      const listing = { id: "posts", contents: "*.qmd" };
+
+      const schema = generateSchema(docs, listing, { enums: ["status"] });
+
+      expect(schema.shape.status).toBeInstanceOf(z.ZodEnum);
+      expect(schema.shape.level).toBeInstanceOf(z.ZodString);
+    });
+
     it("should ensure minimum required fields", () => {
       const docs = [{ description: "Test" }];
       const listing = { id: "test", contents: "*.qmd" };
@@ -93,6 +186,111 @@ describe("Schema Generator", () => {
     });
   });
 
+  describe("createListingSchema", () => {
+    const fieldMappings = { ...DEFAULT_FIELD_MAPPINGS, date: "publishedAt" };
+
+    it("should not require pubDate under a custom date mapping", () => {
+      const listing = { id: "posts", contents: "*.qmd" };
+      const schema = createListingSchema(
+        listing,
+        [{ title: "Post", publishedAt: new Date() }],
+        { fieldMappings },
+      );
+
+      expect(schema.shape.pubDate).toBeUndefined();
+      expect(
+        schema.safeParse({ title: "Post", publishedAt: new Date() }).success,
+      ).toBe(true);
+      expect(schema.safeParse({ title: "Post" }).success).toBe(false);
+    });
+
+    it("should enforce field-required under mapped names", () => {
+      const listing = {
+        id: "posts",
+        contents: "*.qmd",
+        "field-required": ["description", "venue"],
+      };
+      const schema = createListingSchema(
+        listing,
+        [
+          { title: "Post 1", publishedAt: new Date(), description: "One" },
+          { title: "Post 2", publishedAt: new Date() },
+        ],
+        { fieldMappings: { ...fieldMappings, description: "summary" } },
+      );
+
+      const entry = { title: "Post", publishedAt: new Date() };
+      expect(schema.safeParse(entry).success).toBe(false);
+      expect(
+        schema.safeParse({ ...entry, summary: "Text", venue: "Paris" }).success,
+      ).toBe(true);
+      expect(schema.safeParse({ ...entry, summary: "Text" }).success).toBe(
+        false,
+      );
+    });
+
+    it("should use field-types for the Zod type", () => {
+      const listing = {
+        id: "talks",
+        contents: "*.qmd",
+        "field-types": {
+          "event-date": "date",
+          attendees: "number",
+          "reading-time": "minutes",
+        },
+      };
+      const schema = createListingSchema(listing, [
+        {
+          title: "Talk",
+          pubDate: new Date(),
+          "event-date": "2025-03-01",
+          attendees: "12",
+        },
+        { title: "Talk 2", pubDate: new Date() },
+      ]);
+
+      const result = schema.parse({
+        title: "Talk",
+        pubDate: new Date(),
+        "event-date": "2025-03-01",
+        attendees: "12",
+        "reading-time": 4,
+      });
+      expect(result["event-date"]).toBeInstanceOf(Date);
+      expect(result.attendees).toBe(12);
+      expect(
+        schema.safeParse({ title: "Talk", pubDate: new Date() }).success,
+      ).toBe(true);
+      expect(
+        schema.safeParse({
+          title: "Talk",
+          pubDate: new Date(),
+          "event-date": "not a date",
+        }).success,
+      ).toBe(false);
+    });
+
+    it("should warn about unknown field types", () => {
+      const warnings: string[] = [];
+      const listing = {
+        id: "posts",
+        contents: "*.qmd",
+        "field-types": { rating: "stars" },
+      };
+
+      createListingSchema(
+        listing,
+        [{ title: "Post", pubDate: new Date(), rating: 3 }],
+        {},
+        { warn: (msg) => warnings.push(msg) },
+      );
+
+      expect(warnings).toEqual([
+        "Unknown field type 'stars' for field 'rating' in listing 'posts'",
+      ]);
+    });
+  });
+
   describe("applySchemaConfig", () => {
     it("should return base schema when no config", () => {
       const baseSchema = z.object({ title: z.string() });
@@ -118,6 +316,55 @@ describe("Schema Generator", () => {
       expect(result.shape.extra).toBeDefined();
     });
   });
+
+  describe("mergeListingSchemas", () => {
+    it("should return a single schema unchanged", () => {
+      const schema = z.object({ title: z.string() });
+      expect(mergeListingSchemas([schema])).toBe(schema);
+    });
+
+    it("should keep refined fields of different types apart", () => {
+      const merged = mergeListingSchemas([
+        z.object({ foo: z.string().refine((value) => value.length > 0) }),
+        z.object({ foo: z.number().refine((value) => value > 0) }),
+      ]);
+
+      expect(merged.safeParse({ foo: "a" }).success).toBe(true);
+      expect(merged.safeParse({ foo: 3 }).success).toBe(true);
+    });
+
+    it("should make fields missing from some listings optional", () => {
+      const merged = mergeListingSchemas([
+        z.object({ title: z.string(), venue: z.string() }),
+        z.object({ title: z.string() }),
+      ]);
+
+      expect(merged.shape.title!.isOptional()).toBe(false);
+      expect(merged.shape.venue!.isOptional()).toBe(true);
+    });
+
+    it("should keep defaults of fields missing from some listings", () => {
+      const merged = mergeListingSchemas([
+        z.object({ draft: z.boolean().default(false) }),
+        z.object({}),
+      ]);
+
+      expect(merged.parse({}).draft).toBe(false);
+    });
+
+    it("should accept either type when listings disagree", () => {
+      const merged = mergeListingSchemas([
+        z.object({ level: z.number() }),
+        z.object({ level: z.string() }),
+        z.object({ level: z.number() }),
+      ]);
+
+      expect(merged.shape.level).toBeInstanceOf(z.ZodUnion);
+      expect(merged.safeParse({ level: 1 }).success).toBe(true);
+      expect(merged.safeParse({ level: "one" }).success).toBe(true);
+      expect(merged.safeParse({ level: true }).success).toBe(false);
+    });
+  });
 });
 
 describe("Schema Validator", () => {
@@ -155,6 +402,37 @@ describe("Schema Validator", () => {
       expect(result.errors!.length).toBeGreaterThan(0);
     });
 
+    it("should report original Quarto fields and source positions", () => {
+      const schema = z.object({ title: z.string(), pubDate: z.date() });
+      const source = '---\ntitle: "Post"\ndate: soon\n---\n';
+
+      try {
+        validateEntryOrThrow(
+          { title: "Post", pubDate: "soon" },
+          schema,
+          "quarto/posts/post.qmd",
+          {
+            fieldMappings: { date: "pubDate" },
+            readSource: () => source,
+          },
+        );
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        const issue = (error as ValidationError).errors![0]!;
+        expect(issue.field).toBe("pubDate");
+        expect(issue.quartoField).toBe("date");
+        expect(issue.line).toBe(3);
+        expect(issue.column).toBe(1);
+        expect((error as ValidationError).message).toContain(
+          "Validation error in quarto/posts/post.qmd",
+        );
+        expect((error as ValidationError).message).toContain(
+          "date (as pubDate) at line 3, column 1",
+        );
+      }
+    });
+
     it("should include field paths in errors", () => {
       const schema = z.object({
         title: z.string(),
@@ -167,3 +445,43 @@ describe("Schema Validator", () => {
     });
   });
 });
+
+describe("Astro Image Schema", () => {
+  const image = () =>
+    z.string().transform((src) => ({ src, width: 800, height: 600 }));
+
+  it("should use image() for the mapped image field", () => {
+    const schema = createImageSchema(image);
+    const result = schema.parse({
+      title: "Post",
+      pubDate: new Date("2025-11-24"),
+      heroImage: "./cover.png",
+      customField: "kept",
+    });
+
+    expect(result.heroImage).toEqual({
+      src: "./cover.png",
+      width: 800,
+      height: 600,
+    });
+    expect(result.customField).toBe("kept");
+  });
+
+  it("should follow custom field mappings", () => {
+    const schema = createImageSchema(image, {
+      fieldMappings: { date: "publishedAt", image: "cover" },
+    });
+
+    expect(schema.shape.cover).toBeDefined();
+    expect(schema.shape.publishedAt).toBeDefined();
+    expect(schema.shape.heroImage).toBeUndefined();
+  });
+});
+
+describe("getMappedCommonFields", () => {
+  it("should key common fields by their mapped names", () => {
+    const fields = getMappedCommonFields({ date: "publishedAt" });
+    expect(fields.publishedAt).toBe(commonFields.pubDate);
+    expect(fields.pubDate).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeFile, mkdir, rm, utimes } from "fs/promises";
+import { join } from "path";
+import {
+  detectStaleOutputs,
+  normalizeStaleOutputsConfig,
+} from "../../src/utils/staleness.js";
+import { checkRenderedFileStatus } from "../../src/parsers/markdown-content.js";
+
+describe("staleness", () => {
+  const testDir = join(process.cwd(), "test-output-staleness");
+  const quartoRoot = join(testDir, "quarto");
+  const outputDir = "_site";
+  const qmdPath = join(quartoRoot, "posts", "post.qmd");
+  const mdPath = join(quartoRoot, outputDir, "posts", "post.md");
+
+  const older = new Date("2025-01-01T00:00:00Z");
+  const newer = new Date("2025-01-02T00:00:00Z");
+
+  beforeEach(async () => {
+    await mkdir(join(quartoRoot, "posts"), { recursive: true });
+    await mkdir(join(quartoRoot, outputDir, "posts"), { recursive: true });
+    await writeFile(qmdPath, "---\ntitle: Post\n---\n\nContent");
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("checkRenderedFileStatus", () => {
+    it("should report missing outputs", async () => {
+      const status = await checkRenderedFileStatus(
+        qmdPath,
+        quartoRoot,
+        outputDir,
+      );
+      expect(status).toBe("missing");
+    });
+
+    it("should report stale outputs", async () => {
+      await writeFile(mdPath, "Content");
+      await utimes(mdPath, older, older);
+      await utimes(qmdPath, newer, newer);
+
+      const status = await checkRenderedFileStatus(
+        qmdPath,
+        quartoRoot,
+        outputDir,
+      );
+      expect(status).toBe("stale");
+    });
+
+    it("should report fresh outputs", async () => {
+      await writeFile(mdPath, "Content");
+      await utimes(qmdPath, older, older);
+      await utimes(mdPath, newer, newer);
+
+      const status = await checkRenderedFileStatus(
+        qmdPath,
+        quartoRoot,
+        outputDir,
+      );
+      expect(status).toBe("fresh");
+    });
+  });
+
+  describe("detectStaleOutputs", () => {
+    it("should ignore sources whose content matches the recorded hash", async () => {
+      const values = new Map<string, string>();
+      const meta = {
+        get: (key: string) => values.get(key),
+        set: (key: string, value: string) => {
+          values.set(key, value);
+        },
+      };
+
+      // Fresh output records the source hash
+      await writeFile(mdPath, "Content");
+      await utimes(qmdPath, older, older);
+      await utimes(mdPath, newer, newer);
+      await detectStaleOutputs([qmdPath], quartoRoot, outputDir, meta);
+
+      // Touching the source without changing it is not stale
+      await utimes(qmdPath, new Date(), new Date());
+      let report = await detectStaleOutputs(
+        [qmdPath],
+        quartoRoot,
+        outputDir,
+        meta,
+      );
+      expect(report.stale).toEqual([]);
+
+      // Editing the source is
+      await writeFile(qmdPath, "---\ntitle: Edited\n---\n\nContent");
+      report = await detectStaleOutputs([qmdPath], quartoRoot, outputDir, meta);
+      expect(report.stale).toEqual([qmdPath]);
+    });
+
+    it("should compare modification times without meta", async () => {
+      await writeFile(mdPath, "Content");
+      await utimes(mdPath, older, older);
+      await utimes(qmdPath, newer, newer);
+
+      const report = await detectStaleOutputs([qmdPath], quartoRoot, outputDir);
+      expect(report).toEqual({ stale: [qmdPath], missing: [] });
+    });
+  });
+
+  describe("normalizeStaleOutputsConfig", () => {
+    it("should default to warn", () => {
+      expect(normalizeStaleOutputsConfig()).toEqual({
+        mode: "warn",
+        compareHashes: false,
+      });
+    });
+
+    it("should accept object configuration", () => {
+      expect(
+        normalizeStaleOutputsConfig({ mode: "error", compareHashes: true }),
+      ).toEqual({ mode: "error", compareHashes: true });
+    });
+  });
+});